@@ -0,0 +1,80 @@
+// server/src/mailer/index.ts
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const fromAddress = () => process.env.MAIL_FROM || 'no-reply@kanban.local';
+
+// Sends through any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: fromAddress(), ...message });
+  }
+}
+
+// Writes each message as a .txt file into MAIL_DIR, for local testing
+export class FileMailer implements Mailer {
+  constructor(private dir = process.env.MAIL_DIR || 'mail-outbox') {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.txt`;
+    const body = `From: ${fromAddress()}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await fs.writeFile(path.join(this.dir, fileName), body);
+  }
+}
+
+// Prints messages to the console, the default when nothing is configured
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+let mailer: Mailer | null = null;
+
+// Chosen by MAIL_TRANSPORT: smtp, file or console
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    switch (process.env.MAIL_TRANSPORT) {
+      case 'smtp':
+        mailer = new SmtpMailer();
+        break;
+      case 'file':
+        mailer = new FileMailer();
+        break;
+      default:
+        mailer = new ConsoleMailer();
+    }
+  }
+  return mailer;
+};
+
+// Lets tests or alternative setups swap the implementation
+export const setMailer = (custom: Mailer) => {
+  mailer = custom;
+};
@@ -1,10 +1,19 @@
 // server/src/middleware/auth.ts
 import { Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import User, { IUser } from '../models/User';
 import { AuthRequest } from '../types';
+import { verifyAccessToken } from '../utils/sessions';
+import { resolvePermissions } from '../utils/permissions';
+import { READ_ONLY_METHODS, isApiToken, verifyApiToken } from '../utils/apiTokens';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback_secret_key_change_this_in_production';
+// All a session that still has to enrol in two-factor auth may reach. Exact
+// paths: other /api/auth/2fa routes, like the policy, need a full session.
+const TWO_FACTOR_SETUP_PATHS = [
+  '/api/auth/2fa',
+  '/api/auth/2fa/setup',
+  '/api/auth/2fa/verify',
+  '/api/auth/me',
+  '/api/auth/logout'
+];
 
 export const protect = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -13,16 +22,45 @@ export const protect = async (req: AuthRequest, res: Response, next: NextFunctio
     if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
       token = req.headers.authorization.split(' ')[1];
 
-      const decoded = jwt.verify(token, JWT_SECRET) as { id: string; role: string };
+      // Personal API tokens carry their own, narrower permission set
+      if (token && isApiToken(token)) {
+        const tokenResult = await verifyApiToken(token);
 
-      const user = await User.findById(decoded.id).select('-password') as IUser | null;
+        if ('error' in tokenResult) {
+          res.status(401).json({ message: tokenResult.error });
+          return;
+        }
 
-      if (!user) {
-        res.status(401).json({ message: 'User not found' });
+        // Ownership-based routes ignore scopes, so this is what keeps a read token read-only
+        if (tokenResult.access === 'read' && !READ_ONLY_METHODS.includes(req.method)) {
+          res.status(403).json({ message: 'This API token is read-only' });
+          return;
+        }
+
+        req.user = tokenResult.user;
+        req.apiTokenId = tokenResult.tokenId;
+        req.permissions = tokenResult.permissions;
+        next();
+        return;
+      }
+
+      // Checks signature, session revocation and that the account is still active
+      const result = await verifyAccessToken(token);
+
+      if ('error' in result) {
+        res.status(401).json({ message: result.error });
         return;
       }
 
-      req.user = user;
+      if (result.restricted === 'two-factor-setup'
+        && !TWO_FACTOR_SETUP_PATHS.includes(req.originalUrl.split('?')[0].replace(/\/+$/, ''))) {
+        res.status(403).json({ code: 'TWO_FACTOR_SETUP_REQUIRED', message: 'Two-factor authentication must be set up first' });
+        return;
+      }
+
+      req.user = result.user;
+      req.sessionId = result.sessionId;
+      req.permissions = await resolvePermissions(result.user);
       next();
       return;
     }
@@ -34,4 +72,13 @@ export const protect = async (req: AuthRequest, res: Response, next: NextFunctio
     res.status(401).json({ message: 'Token failed' });
     return;
   }
-};
\ No newline at end of file
+};
+
+// For account security endpoints that a personal API token must not reach
+export const requireSession = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.apiTokenId) {
+    res.status(403).json({ message: 'This endpoint cannot be used with an API token' });
+    return;
+  }
+  next();
+};
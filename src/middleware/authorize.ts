@@ -1,19 +0,0 @@
-// middleware/authorize.ts
-import { Response, NextFunction } from "express";
-import { AuthRequest } from "../types";
-
-export const authorize = (...roles: string[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
-    if (!req.user) {
-      return res.status(401).json({ message: "User not authenticated" });
-    }
-
-    if (!roles.includes(req.user.role)) {
-      return res.status(403).json({
-        message: `User role ${req.user.role} is not authorized to access this route`,
-      });
-    }
-
-    return next(); // ✅ always return here
-  };
-};
@@ -0,0 +1,25 @@
+// middleware/requirePermission.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../types";
+import { Permission } from "../utils/permissions";
+
+// Requires every listed permission; `protect` must run first to resolve them
+export const requirePermission = (...required: Permission[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const missing = required.filter((permission) => !hasPermission(req, permission));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        message: `Missing permission: ${missing.join(", ")}`,
+      });
+    }
+
+    return next();
+  };
+};
+
+export const hasPermission = (req: AuthRequest, permission: Permission): boolean =>
+  !!req.permissions && req.permissions.includes(permission);
@@ -0,0 +1,21 @@
+// server/src/migrations/backfillEmailVerified.ts
+import AuthToken from '../models/AuthToken';
+import User from '../models/User';
+
+// Accounts from before email verification never got a link, so turning on
+// REQUIRE_EMAIL_VERIFICATION would lock them all out. They count as verified
+// from their creation date; accounts holding a live, unused verification link
+// signed up since and must verify as usual.
+const backfillEmailVerified = async () => {
+  const awaitingVerification = await AuthToken.distinct('user', {
+    type: 'email-verification',
+    usedAt: null
+  });
+
+  await User.updateMany(
+    { emailVerifiedAt: null, _id: { $nin: awaitingVerification } },
+    [{ $set: { emailVerifiedAt: '$createdAt' } }]
+  );
+};
+
+export default backfillEmailVerified;
@@ -0,0 +1,37 @@
+// server/src/migrations/backfillProjectMembers.ts
+import { Types } from 'mongoose';
+import Project, { IProjectMember } from '../models/Project';
+import Task from '../models/Task';
+
+// Projects created before project membership have no members, which would lock
+// out everyone without project:manage. Whoever created tasks in a project becomes
+// a maintainer and whoever is assigned to them a member.
+const backfillProjectMembers = async () => {
+  const projects = await Project.find({ members: { $size: 0 } }, '_id');
+
+  for (const project of projects) {
+    const tasks = await Task.find({ projectId: project._id }, 'assignedBy assignedTo');
+    const roles = new Map<string, IProjectMember['role']>();
+
+    tasks.forEach(task => {
+      task.assignedTo.forEach(userId => {
+        if (!roles.has(userId.toString())) {
+          roles.set(userId.toString(), 'member');
+        }
+      });
+      roles.set(task.assignedBy.toString(), 'maintainer');
+    });
+
+    if (roles.size === 0) {
+      continue;
+    }
+
+    // Only fills projects that are still empty, in case members were added meanwhile
+    await Project.updateOne(
+      { _id: project._id, members: { $size: 0 } },
+      { $set: { members: [...roles].map(([user, role]) => ({ user: new Types.ObjectId(user), role })) } }
+    );
+  }
+};
+
+export default backfillProjectMembers;
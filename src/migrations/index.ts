@@ -0,0 +1,35 @@
+// server/src/migrations/index.ts
+import Setting from '../models/Setting';
+import backfillProjectMembers from './backfillProjectMembers';
+import backfillEmailVerified from './backfillEmailVerified';
+import normalizeLeaveDays from './normalizeLeaveDays';
+
+interface Migration {
+  name: string;
+  up: () => Promise<void>;
+}
+
+// Run in order, once each; add new ones at the end
+const MIGRATIONS: Migration[] = [
+  { name: 'backfill-project-members', up: backfillProjectMembers },
+  { name: 'backfill-email-verified', up: backfillEmailVerified },
+  { name: 'normalize-leave-days', up: normalizeLeaveDays },
+];
+
+const settingKey = (name: string) => `migration.${name}`;
+
+// One-off data changes that new code depends on. Each is recorded in the
+// settings collection when it finishes so it never runs twice.
+const runMigrations = async () => {
+  for (const migration of MIGRATIONS) {
+    if (await Setting.exists({ key: settingKey(migration.name) })) {
+      continue;
+    }
+
+    console.log(`Running migration ${migration.name}`);
+    await migration.up();
+    await Setting.create({ key: settingKey(migration.name), value: { completedAt: new Date() } });
+  }
+};
+
+export default runMigrations;
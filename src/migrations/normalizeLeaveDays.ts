@@ -0,0 +1,41 @@
+// server/src/migrations/normalizeLeaveDays.ts
+import HolidayCalendar from '../models/HolidayCalendar';
+import Leave from '../models/Leave';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Leave and holiday dates are now UTC midnight of their calendar day. Older
+// ones were either the raw client value, which for "YYYY-MM-DD" input already
+// is UTC midnight and is kept, or midnight in the server's time zone, which is
+// moved to UTC midnight of the same local day. This must run on a server in
+// the time zone that wrote them, which startup migrations do.
+const utcDay = (date: Date) => {
+  if (date.getTime() % DAY_MS === 0) {
+    return date;
+  }
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+};
+
+const normalizeLeaveDays = async () => {
+  for await (const leave of Leave.find({}, 'startDate endDate').lean()) {
+    const startDate = utcDay(leave.startDate);
+    const endDate = utcDay(leave.endDate);
+    if (startDate.getTime() !== leave.startDate.getTime() || endDate.getTime() !== leave.endDate.getTime()) {
+      await Leave.updateOne({ _id: leave._id }, { $set: { startDate, endDate } }, { timestamps: false });
+    }
+  }
+
+  for (const calendar of await HolidayCalendar.find({ 'holidays.0': { $exists: true } })) {
+    calendar.holidays.forEach(holiday => {
+      const date = utcDay(holiday.date);
+      if (date.getTime() !== holiday.date.getTime()) {
+        holiday.date = date;
+      }
+    });
+    if (calendar.isModified()) {
+      await calendar.save();
+    }
+  }
+};
+
+export default normalizeLeaveDays;
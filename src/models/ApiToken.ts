@@ -0,0 +1,55 @@
+// server/src/models/ApiToken.ts
+import { Schema, model, Document, Types } from 'mongoose';
+import { ALL_PERMISSIONS, Permission } from '../utils/permissions';
+
+export type ApiTokenAccess = 'read' | 'write';
+
+// Personal access token for scripts. Only a hash is stored; the prefix helps
+// users recognise a token in the list without exposing it. Scopes narrow the
+// permission-gated routes; access decides whether the token may change
+// anything at all, including tasks and leave its owner has access to by
+// ownership rather than by permission.
+export interface IApiToken extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  name: string;
+  tokenHash: string;
+  prefix: string;
+  scopes: Permission[]; // Upper bound on the owner's permissions when using the token
+  access: ApiTokenAccess; // 'read' tokens may only make GET requests
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiTokenSchema = new Schema<IApiToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  prefix: { type: String, required: true },
+  scopes: [{ type: String, enum: ALL_PERMISSIONS }],
+  access: { type: String, enum: ['read', 'write'], default: 'read' },
+  expiresAt: { type: Date, required: true },
+  lastUsedAt: { type: Date },
+  revokedAt: { type: Date }
+}, { timestamps: true });
+
+const ApiToken = model<IApiToken>('ApiToken', apiTokenSchema);
+export default ApiToken;
@@ -0,0 +1,40 @@
+// server/src/models/AuthToken.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Single-use, expiring tokens sent by email or handed out between the two
+// login steps. Only a hash is stored.
+export interface IAuthToken extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  type: 'email-verification' | 'password-reset' | 'two-factor-challenge';
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+const authTokenSchema = new Schema<IAuthToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['email-verification', 'password-reset', 'two-factor-challenge'],
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+authTokenSchema.index({ user: 1, type: 1 });
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AuthToken = model<IAuthToken>('AuthToken', authTokenSchema);
+export default AuthToken;
@@ -0,0 +1,42 @@
+// server/src/models/Comment.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface IComment extends Document {
+  _id: Types.ObjectId;
+  task: Types.ObjectId;
+  author: Types.ObjectId;
+  content: string;
+  parent?: Types.ObjectId; // Comment this one replies to
+  mentions: Types.ObjectId[];
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const commentSchema = new Schema<IComment>({
+  task: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    required: true,
+    index: true
+  },
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  content: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: 'Comment'
+  },
+  mentions: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+  editedAt: { type: Date }
+}, { timestamps: true });
+
+const Comment = model<IComment>('Comment', commentSchema);
+export default Comment;
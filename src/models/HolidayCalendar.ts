@@ -0,0 +1,40 @@
+// server/src/models/HolidayCalendar.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface IHoliday {
+  _id: Types.ObjectId;
+  date: Date; // Day of the holiday, stored at UTC midnight
+  name: string;
+  halfDay: boolean; // Only the afternoon is off
+}
+
+// Working week and public holidays used to count leave in working days.
+// Users follow their own calendar, or the default one when they have none.
+export interface IHolidayCalendar extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  weekendDays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: Types.DocumentArray<IHoliday>;
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const holidaySchema = new Schema<IHoliday>({
+  date: { type: Date, required: true },
+  name: { type: String, required: true, trim: true },
+  halfDay: { type: Boolean, default: false }
+});
+
+const holidayCalendarSchema = new Schema<IHolidayCalendar>({
+  name: { type: String, required: true, trim: true, unique: true },
+  weekendDays: {
+    type: [{ type: Number, min: 0, max: 6 }],
+    default: [0, 6]
+  },
+  holidays: [holidaySchema],
+  isDefault: { type: Boolean, default: false }
+}, { timestamps: true });
+
+const HolidayCalendar = model<IHolidayCalendar>('HolidayCalendar', holidayCalendarSchema);
+export default HolidayCalendar;
@@ -0,0 +1,54 @@
+// server/src/models/Invitation.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface IInvitation extends Document {
+  _id: Types.ObjectId;
+  email: string;
+  role: 'admin' | 'user'; // Account role the invitee gets
+  team?: Types.ObjectId; // Team the invitee joins
+  invitedBy: Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: Types.ObjectId;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'user'],
+    default: 'user'
+  },
+  team: {
+    type: Schema.Types.ObjectId,
+    ref: 'Team'
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: { type: Date, required: true },
+  acceptedAt: { type: Date },
+  acceptedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  revokedAt: { type: Date }
+}, { timestamps: true });
+
+invitationSchema.index({ email: 1 });
+
+const Invitation = model<IInvitation>('Invitation', invitationSchema);
+export default Invitation;
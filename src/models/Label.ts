@@ -0,0 +1,29 @@
+// server/src/models/Label.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface ILabel extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  color: string; // Hex colour, e.g. #ff8800
+  project?: Types.ObjectId; // Unset for global labels
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const labelSchema = new Schema<ILabel>({
+  name: { type: String, required: true, trim: true },
+  color: {
+    type: String,
+    required: true,
+    match: /^#[0-9a-fA-F]{6}$/
+  },
+  project: { type: Schema.Types.ObjectId, ref: 'Project' },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, { timestamps: true });
+
+// Names are unique within a project (or among global labels)
+labelSchema.index({ project: 1, name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+
+const Label = model<ILabel>('Label', labelSchema);
+export default Label;
@@ -2,24 +2,108 @@
 import { Schema, model, Document, Types } from 'mongoose';
 import { IUser } from './User';
 
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn' | 'cancelled';
+
+// One level of the approval chain, copied from the team when the leave is requested
+export interface ILeaveApproval {
+  _id: Types.ObjectId;
+  role: 'team-lead' | 'user' | 'admin';
+  approver?: Types.ObjectId; // Named approver; unset for admin steps
+  decision?: 'approved' | 'rejected';
+  decidedBy?: Types.ObjectId;
+  onBehalfOf?: Types.ObjectId; // Set when a delegate decided for the approver
+  comment?: string;
+  decidedAt?: Date;
+}
+
+export interface ILeaveHistoryEntry {
+  _id: Types.ObjectId;
+  action: 'requested' | 'approved' | 'rejected' | 'withdrawn' | 'cancelled';
+  from?: LeaveStatus;
+  to: LeaveStatus;
+  step?: number; // Approval level, for approvals and rejections
+  by: Types.ObjectId;
+  onBehalfOf?: Types.ObjectId;
+  comment?: string;
+  at: Date;
+}
+
+// An open task of the requester due during the leave, listed when it is approved
+export interface IHandoverItem {
+  _id: Types.ObjectId;
+  task: Types.ObjectId;
+  title: string;
+  dueDate: Date;
+  reassignedTo?: Types.ObjectId;
+  reassignedBy?: Types.ObjectId;
+  reassignedAt?: Date;
+}
+
 export interface ILeave extends Document {
   _id: Types.ObjectId;
   user: Types.ObjectId; // Reference to the user who requested leave
+  leaveType?: Types.ObjectId; // Unset when requested without a type; such leave uses no balance
   startDate: Date;
   endDate: Date;
+  halfDayStart: boolean; // Starts at noon on startDate
+  halfDayEnd: boolean; // Ends at noon on endDate
+  days?: number; // Working days charged against the balance, fixed when requested
   reason: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: LeaveStatus;
   approvedBy?: Types.ObjectId; // Reference to admin who approved/rejected
+  team?: Types.ObjectId; // Team whose approval chain applies
+  approvals: Types.DocumentArray<ILeaveApproval>;
+  currentStep: number; // Index into approvals while pending
+  history: Types.DocumentArray<ILeaveHistoryEntry>;
+  handover: Types.DocumentArray<IHandoverItem>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const approvalSchema = new Schema<ILeaveApproval>({
+  role: { type: String, enum: ['team-lead', 'user', 'admin'], required: true },
+  approver: { type: Schema.Types.ObjectId, ref: 'User' },
+  decision: { type: String, enum: ['approved', 'rejected'] },
+  decidedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  onBehalfOf: { type: Schema.Types.ObjectId, ref: 'User' },
+  comment: { type: String, maxlength: 1000 },
+  decidedAt: { type: Date }
+});
+
+const historySchema = new Schema<ILeaveHistoryEntry>({
+  action: {
+    type: String,
+    enum: ['requested', 'approved', 'rejected', 'withdrawn', 'cancelled'],
+    required: true
+  },
+  from: { type: String },
+  to: { type: String, required: true },
+  step: { type: Number },
+  by: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  onBehalfOf: { type: Schema.Types.ObjectId, ref: 'User' },
+  comment: { type: String, maxlength: 1000 },
+  at: { type: Date, default: Date.now }
+});
+
+const handoverItemSchema = new Schema<IHandoverItem>({
+  task: { type: Schema.Types.ObjectId, ref: 'Task', required: true },
+  title: { type: String, required: true },
+  dueDate: { type: Date, required: true },
+  reassignedTo: { type: Schema.Types.ObjectId, ref: 'User' },
+  reassignedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  reassignedAt: { type: Date }
+});
+
 const leaveSchema = new Schema<ILeave>({
   user: { 
     type: Schema.Types.ObjectId, 
     ref: 'User', 
     required: true 
   },
+  leaveType: { 
+    type: Schema.Types.ObjectId, 
+    ref: 'LeaveType' 
+  },
   startDate: { 
     type: Date, 
     required: true 
@@ -28,20 +112,33 @@ const leaveSchema = new Schema<ILeave>({
     type: Date, 
     required: true 
   },
+  halfDayStart: { type: Boolean, default: false },
+  halfDayEnd: { type: Boolean, default: false },
+  days: { type: Number, min: 0 },
   reason: { 
     type: String, 
     required: true 
   },
   status: { 
     type: String, 
-    enum: ['pending', 'approved', 'rejected'], 
+    enum: ['pending', 'approved', 'rejected', 'withdrawn', 'cancelled'], 
     default: 'pending' 
   },
   approvedBy: { 
     type: Schema.Types.ObjectId, 
     ref: 'User' 
-  }
-}, { timestamps: true });
+  },
+  team: { 
+    type: Schema.Types.ObjectId, 
+    ref: 'Team' 
+  },
+  approvals: [approvalSchema],
+  currentStep: { type: Number, default: 0 },
+  history: [historySchema],
+  handover: [handoverItemSchema]
+}, { timestamps: true, optimisticConcurrency: true });
+
+leaveSchema.index({ user: 1, leaveType: 1, startDate: 1 });
 
 const Leave = model<ILeave>('Leave', leaveSchema);
 export default Leave;
\ No newline at end of file
@@ -0,0 +1,34 @@
+// server/src/models/LeaveEvent.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+export type LeaveEventName = 'leaveRequested' | 'leaveApproved' | 'leaveRejected' | 'leaveCancelled';
+
+// A leave notification as sent over Socket.IO, kept so clients that were
+// offline can fetch what they missed. `room` is a user id or a role name.
+export interface ILeaveEvent extends Document {
+  _id: Types.ObjectId;
+  room: string;
+  event: LeaveEventName;
+  leave: Types.ObjectId;
+  payload: any; // The leave as it was emitted
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const leaveEventSchema = new Schema<ILeaveEvent>({
+  room: { type: String, required: true },
+  event: {
+    type: String,
+    enum: ['leaveRequested', 'leaveApproved', 'leaveRejected', 'leaveCancelled'],
+    required: true
+  },
+  leave: { type: Schema.Types.ObjectId, ref: 'Leave', required: true },
+  payload: { type: Schema.Types.Mixed },
+  expiresAt: { type: Date, required: true }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+leaveEventSchema.index({ room: 1, _id: 1 });
+leaveEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LeaveEvent = model<ILeaveEvent>('LeaveEvent', leaveEventSchema);
+export default LeaveEvent;
@@ -0,0 +1,33 @@
+// server/src/models/LeaveType.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+// A kind of leave (vacation, sick, ...) with its yearly allowance in days
+export interface ILeaveType extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  annualAllowance: number; // Days per calendar year
+  accrual: 'yearly' | 'monthly'; // Whole allowance on Jan 1, or 1/12 at the start of each month
+  carryOverCap: number; // Most unused days that move into the next year
+  isActive: boolean; // Inactive types keep their history but take no new requests
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const leaveTypeSchema = new Schema<ILeaveType>({
+  name: { type: String, required: true, trim: true },
+  description: { type: String },
+  annualAllowance: { type: Number, required: true, min: 0 },
+  accrual: {
+    type: String,
+    enum: ['yearly', 'monthly'],
+    default: 'yearly'
+  },
+  carryOverCap: { type: Number, default: 0, min: 0 },
+  isActive: { type: Boolean, default: true }
+}, { timestamps: true });
+
+leaveTypeSchema.index({ name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+
+const LeaveType = model<ILeaveType>('LeaveType', leaveTypeSchema);
+export default LeaveType;
@@ -0,0 +1,28 @@
+// server/src/models/LoginThrottle.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Failed login counter for one IP ("ip:<address>") or one account ("account:<email>").
+// Kept in the database so lockouts survive restarts.
+export interface ILoginThrottle extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  blockedUntil?: Date; // Backoff or lockout end
+  locked: boolean; // True once the lockout threshold was reached
+  expiresAt: Date; // Counter is forgotten after a quiet period
+}
+
+const loginThrottleSchema = new Schema<ILoginThrottle>({
+  key: { type: String, required: true, unique: true },
+  failures: { type: Number, default: 0 },
+  lastFailureAt: { type: Date, default: Date.now },
+  blockedUntil: { type: Date },
+  locked: { type: Boolean, default: false },
+  expiresAt: { type: Date, required: true }
+});
+
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginThrottle = model<ILoginThrottle>('LoginThrottle', loginThrottleSchema);
+export default LoginThrottle;
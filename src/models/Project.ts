@@ -1,19 +1,84 @@
 // server/src/models/Project.ts
-import { Schema, model, Document } from 'mongoose';
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface IWorkflowColumn {
+  key: string; // Value stored in Task.status
+  name: string; // Label shown on the board
+  wipLimit?: number; // Max tasks in the column across the project
+  wipLimitPerAssignee?: number; // Max tasks in the column per assignee
+}
+
+export interface IWorkflowTransition {
+  from: string;
+  to: string;
+}
+
+export interface IWorkflow {
+  columns: IWorkflowColumn[]; // Ordered left to right
+  transitions: IWorkflowTransition[]; // Empty means any column can move to any other
+}
+
+export type ProjectRole = 'owner' | 'maintainer' | 'member' | 'viewer';
+
+export interface IProjectMember {
+  user: Types.ObjectId;
+  role: ProjectRole;
+}
 
 export interface IProject extends Document {
+  _id: Types.ObjectId;
   name: string;
   description?: string;
+  workflow?: IWorkflow;
+  members: IProjectMember[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const workflowColumnSchema = new Schema<IWorkflowColumn>(
+  {
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    wipLimit: { type: Number, min: 1 },
+    wipLimitPerAssignee: { type: Number, min: 1 },
+  },
+  { _id: false }
+);
+
+const workflowTransitionSchema = new Schema<IWorkflowTransition>(
+  {
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const workflowSchema = new Schema<IWorkflow>(
+  {
+    columns: { type: [workflowColumnSchema], default: [] },
+    transitions: { type: [workflowTransitionSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const projectMemberSchema = new Schema<IProjectMember>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    role: { type: String, enum: ['owner', 'maintainer', 'member', 'viewer'], default: 'member' },
+  },
+  { _id: false }
+);
+
 const projectSchema = new Schema<IProject>(
   {
     name: { type: String, required: true, trim: true },
     description: { type: String, trim: true },
+    workflow: { type: workflowSchema },
+    members: { type: [projectMemberSchema], default: [] },
   },
   { timestamps: true }
 );
 
-export default model<IProject>('Project', projectSchema);
\ No newline at end of file
+projectSchema.index({ 'members.user': 1 });
+
+export default model<IProject>('Project', projectSchema);
@@ -0,0 +1,42 @@
+// server/src/models/RecurringTask.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface IRecurringTask extends Document {
+  _id: Types.ObjectId;
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  assignedTo: Types.ObjectId[];
+  projectId?: Types.ObjectId;
+  schedule: string; // Cron expression, see utils/cron.ts
+  dueOffsetDays?: number; // Due date = occurrence + N days (none if unset)
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  nextRunAt?: Date; // Next occurrence the scheduler will generate
+  lastRunAt?: Date; // Last occurrence generated
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const recurringTaskSchema = new Schema<IRecurringTask>({
+  title: { type: String, required: true },
+  description: { type: String, required: true },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  assignedTo: [{ type: Schema.Types.ObjectId, ref: 'User', required: true }],
+  projectId: { type: Schema.Types.ObjectId, ref: 'Project' },
+  schedule: { type: String, required: true },
+  dueOffsetDays: { type: Number, min: 0 },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  nextRunAt: { type: Date },
+  lastRunAt: { type: Date }
+}, { timestamps: true });
+
+recurringTaskSchema.index({ isActive: 1, nextRunAt: 1 });
+
+const RecurringTask = model<IRecurringTask>('RecurringTask', recurringTaskSchema);
+export default RecurringTask;
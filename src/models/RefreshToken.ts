@@ -0,0 +1,40 @@
+// server/src/models/RefreshToken.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+// One issued refresh token. Only a hash is stored; a token is single-use and
+// presenting one that was already used revokes its whole session.
+export interface IRefreshToken extends Document {
+  _id: Types.ObjectId;
+  session: Types.ObjectId;
+  user: Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  session: {
+    type: Schema.Types.ObjectId,
+    ref: 'Session',
+    required: true,
+    index: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = model<IRefreshToken>('RefreshToken', refreshTokenSchema);
+export default RefreshToken;
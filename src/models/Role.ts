@@ -0,0 +1,21 @@
+// server/src/models/Role.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+// A named bundle of permissions that can be granted to users
+export interface IRole extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  permissions: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const roleSchema = new Schema<IRole>({
+  name: { type: String, required: true, unique: true, trim: true },
+  description: { type: String, trim: true },
+  permissions: { type: [String], default: [] }
+}, { timestamps: true });
+
+const Role = model<IRole>('Role', roleSchema);
+export default Role;
@@ -0,0 +1,43 @@
+// server/src/models/Session.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+// A login session. Access tokens carry its id (sid) and every refresh token
+// issued by rotation belongs to the same session, so revoking it ends them all.
+export interface ISession extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  userAgent?: string;
+  ip?: string;
+  expiresAt: Date; // Absolute end of the session (refresh token lifetime)
+  lastUsedAt: Date;
+  restricted?: 'two-factor-setup'; // Session may only reach the listed setup endpoints
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'logout-all' | 'reuse-detected' | 'deactivated' | 'password-changed';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  userAgent: { type: String },
+  ip: { type: String },
+  expiresAt: { type: Date, required: true },
+  lastUsedAt: { type: Date, default: Date.now },
+  restricted: { type: String, enum: ['two-factor-setup'] },
+  revokedAt: { type: Date },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout-all', 'reuse-detected', 'deactivated', 'password-changed']
+  }
+}, { timestamps: true });
+
+// Let MongoDB clean up expired sessions
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = model<ISession>('Session', sessionSchema);
+export default Session;
@@ -0,0 +1,27 @@
+// server/src/models/Setting.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Admin-editable application settings, one document per key
+export interface ISetting extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  value: any;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const settingSchema = new Schema<ISetting>({
+  key: { type: String, required: true, unique: true },
+  value: { type: Schema.Types.Mixed },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, { timestamps: true });
+
+const Setting = model<ISetting>('Setting', settingSchema);
+
+export const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const setting = await Setting.findOne({ key });
+  return setting && setting.value !== undefined ? setting.value as T : fallback;
+};
+
+export default Setting;
@@ -1,27 +1,50 @@
 import { Schema, model, Document, Types } from "mongoose";
 
+export interface IChecklistItem {
+  _id: Types.ObjectId;
+  text: string;
+  done: boolean;
+  assignee?: Types.ObjectId;
+  order: number;
+  completedAt?: Date;
+}
+
 export interface ITask extends Document {
+  _id: Types.ObjectId;
   title: string;
   description: string;
-  status: "todo" | "in-progress" | "review" | "done";
+  status: string; // Column key from the project's workflow
   priority: "low" | "medium" | "high";
   assignedTo: Types.ObjectId[];
   assignedBy: Types.ObjectId;
   dueDate?: Date;
   projectId?: Types.ObjectId; // 👈 ADD THIS
+  rank?: string; // Lexicographic position within the status column
+  checklist: Types.DocumentArray<IChecklistItem>;
+  blockedBy: Types.ObjectId[]; // Tasks that must be finished before this one
+  labels: Types.ObjectId[];
+  recurrence?: {
+    template: Types.ObjectId; // RecurringTask that generated this task
+    occurrence: Date; // Scheduled time it was generated for
+  };
+  progress: number | null; // Virtual: % of checklist items done, null without a checklist
   createdAt: Date;
   updatedAt: Date;
 }
 
+const checklistItemSchema = new Schema<IChecklistItem>({
+  text: { type: String, required: true, trim: true },
+  done: { type: Boolean, default: false },
+  assignee: { type: Schema.Types.ObjectId, ref: "User" },
+  order: { type: Number, required: true },
+  completedAt: { type: Date },
+});
+
 const taskSchema = new Schema<ITask>(
   {
     title: { type: String, required: true },
     description: { type: String, required: true },
-    status: {
-      type: String,
-      enum: ["todo", "in-progress", "review", "done"],
-      default: "todo",
-    },
+    status: { type: String, required: true, default: "todo" },
     priority: {
       type: String,
       enum: ["low", "medium", "high"],
@@ -31,8 +54,38 @@ const taskSchema = new Schema<ITask>(
     assignedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
     dueDate: { type: Date },
     projectId: { type: Schema.Types.ObjectId, ref: "Project" }, // 👈
+    rank: { type: String },
+    checklist: { type: [checklistItemSchema], default: [] },
+    blockedBy: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+    labels: [{ type: Schema.Types.ObjectId, ref: "Label" }],
+    recurrence: {
+      template: { type: Schema.Types.ObjectId, ref: "RecurringTask" },
+      occurrence: { type: Date },
+    },
   },
-  { timestamps: true }
+  { timestamps: true, toJSON: { virtuals: true }, toObject: { virtuals: true } }
+);
+
+taskSchema.virtual("progress").get(function () {
+  if (!this.checklist || this.checklist.length === 0) {
+    return null;
+  }
+  const done = this.checklist.filter((item) => item.done).length;
+  return Math.round((done / this.checklist.length) * 100);
+});
+
+taskSchema.index({ projectId: 1, status: 1, rank: 1 });
+taskSchema.index({ assignedTo: 1, status: 1 });
+taskSchema.index({ dueDate: 1, status: 1 });
+taskSchema.index({ priority: 1 });
+taskSchema.index({ createdAt: -1 });
+taskSchema.index({ title: "text", description: "text" });
+taskSchema.index({ blockedBy: 1 });
+taskSchema.index({ labels: 1 });
+// One task per template occurrence, so the scheduler can never create duplicates
+taskSchema.index(
+  { "recurrence.template": 1, "recurrence.occurrence": 1 },
+  { unique: true, partialFilterExpression: { "recurrence.template": { $exists: true } } }
 );
 
 export default model<ITask>("Task", taskSchema);
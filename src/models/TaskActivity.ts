@@ -0,0 +1,47 @@
+// server/src/models/TaskActivity.ts
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface ITaskActivity extends Document {
+  _id: Types.ObjectId;
+  task: Types.ObjectId;
+  actor: Types.ObjectId; // User who made the change
+  action: 'created' | 'updated' | 'deleted';
+  field?: string; // Only set for 'updated' entries
+  oldValue?: any;
+  newValue?: any;
+  createdAt: Date;
+}
+
+const taskActivitySchema = new Schema<ITaskActivity>({
+  task: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    required: true
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  action: {
+    type: String,
+    enum: ['created', 'updated', 'deleted'],
+    required: true
+  },
+  field: { type: String },
+  oldValue: { type: Schema.Types.Mixed },
+  newValue: { type: Schema.Types.Mixed }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+taskActivitySchema.index({ task: 1, createdAt: 1 });
+
+// The log is append-only: refuse any query that would rewrite history
+const rejectMutation = function(next: (err?: Error) => void) {
+  next(new Error('Task activity is append-only'));
+};
+
+taskActivitySchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], rejectMutation);
+taskActivitySchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+
+const TaskActivity = model<ITaskActivity>('TaskActivity', taskActivitySchema);
+export default TaskActivity;
@@ -2,12 +2,21 @@
 import { Schema, model, Document, Types } from 'mongoose';
 import User, { IUser } from './User';
 
+// One approval level for leave requested by team members
+export interface ILeaveApprovalStep {
+  approver: 'team-lead' | 'user' | 'admin'; // admin = anyone with leave:approve
+  user?: Types.ObjectId; // Set for 'user' steps
+}
+
 export interface ITeam extends Document {
   _id: Types.ObjectId;
   name: string;
   description?: string;
   project?: string;
   members: Types.ObjectId[];
+  lead?: Types.ObjectId;
+  leaveApprovalChain: ILeaveApprovalStep[]; // Empty means a single admin approval
+  minimumStaffing?: number; // Members who must be at work on any working day
   createdAt: Date;
   updatedAt: Date;
 }
@@ -16,7 +25,14 @@ const teamSchema = new Schema<ITeam>({
   name: { type: String, required: true, unique: true },
   description: { type: String },
   project: { type: String }, // Project the team is working on
-  members: [{ type: Schema.Types.ObjectId, ref: 'User' }] // References to users
+  members: [{ type: Schema.Types.ObjectId, ref: 'User' }], // References to users
+  lead: { type: Schema.Types.ObjectId, ref: 'User' },
+  leaveApprovalChain: [{
+    _id: false,
+    approver: { type: String, enum: ['team-lead', 'user', 'admin'], required: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User' }
+  }],
+  minimumStaffing: { type: Number, min: 0 }
 }, { timestamps: true });
 
 const Team = model<ITeam>('Team', teamSchema);
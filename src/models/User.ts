@@ -2,6 +2,15 @@
 import { Schema, model, Document, Types } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string; // Base32 TOTP secret once enrolled
+  pendingSecret?: string; // Secret awaiting the first valid code
+  lastUsedStep?: number; // Last accepted TOTP time step, blocks replays
+  recoveryCodes: string[]; // SHA-256 hashes of unused recovery codes
+  enabledAt?: Date;
+}
+
 // Mongoose IUser interface
 export interface IUser extends Document {
   _id: Types.ObjectId;
@@ -10,8 +19,14 @@ export interface IUser extends Document {
   password: string;
   role: 'admin' | 'user';
   isActive: boolean;
+  emailVerifiedAt?: Date;
+  twoFactor?: ITwoFactor;
   team?: Types.ObjectId; // Add this if you want to reference team directly on user
-  permissions?: string[];
+  permissions?: string[]; // Direct permission grants
+  roles?: Types.ObjectId[]; // Named roles, see models/Role.ts
+  holidayCalendar?: Types.ObjectId; // Falls back to the default calendar when unset
+  leaveDelegation?: { delegate: Types.ObjectId; from: Date; until: Date }; // Who decides leave for them while away
+  calendarFeedTokenHash?: string; // Secret in the user's .ics feed URLs
   comparePassword(password: string): Promise<boolean>;
 }
 
@@ -21,7 +36,24 @@ const userSchema = new Schema<IUser>({
   password: { type: String, required: true },
   role: { type: String, enum: ['admin', 'user'], default: 'user' },
   isActive: { type: Boolean, default: true },
+  emailVerifiedAt: { type: Date },
+  twoFactor: {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String, select: false },
+    pendingSecret: { type: String, select: false },
+    lastUsedStep: { type: Number },
+    recoveryCodes: { type: [String], default: [], select: false },
+    enabledAt: { type: Date },
+  },
   permissions: { type: [String], default: [] },
+  roles: [{ type: Schema.Types.ObjectId, ref: 'Role' }],
+  holidayCalendar: { type: Schema.Types.ObjectId, ref: 'HolidayCalendar' },
+  leaveDelegation: {
+    delegate: { type: Schema.Types.ObjectId, ref: 'User' },
+    from: { type: Date },
+    until: { type: Date },
+  },
+  calendarFeedTokenHash: { type: String, select: false, index: { unique: true, sparse: true } },
 }, { timestamps: true });
 
 // Hash password before saving
@@ -0,0 +1,111 @@
+// server/src/routes/apiTokens.ts
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
+import ApiToken from '../models/ApiToken';
+import { protect, requireSession } from '../middleware/auth';
+import { hasPermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
+import { isPermission } from '../utils/permissions';
+import {
+  DEFAULT_API_TOKEN_DAYS,
+  MAX_API_TOKEN_DAYS,
+  apiTokenExpiry,
+  generateApiToken
+} from '../utils/apiTokens';
+
+const router = express.Router();
+
+// Get the current user's API tokens (never the token values)
+router.get('/', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const tokens = await ApiToken.find({ user: req.user?._id }).sort({ createdAt: -1 });
+    return res.json({ success: true, data: tokens });
+  } catch (error) {
+    console.error('Get API tokens error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Create an API token; the value is only returned in this response
+router.post('/', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    const { name, scopes = [], access = 'read', expiresInDays = DEFAULT_API_TOKEN_DAYS } = req.body;
+
+    if (!name || String(name).trim().length === 0) {
+      return res.status(400).json({ success: false, message: 'Token name is required' });
+    }
+
+    if (!Array.isArray(scopes) || !scopes.every(isPermission)) {
+      return res.status(400).json({ success: false, message: 'Scopes must be from the permission catalogue' });
+    }
+
+    if (access !== 'read' && access !== 'write') {
+      return res.status(400).json({ success: false, message: "Access must be 'read' or 'write'" });
+    }
+
+    // A token cannot be granted anything its owner does not have
+    const notHeld = scopes.filter(scope => !hasPermission(req, scope));
+    if (notHeld.length > 0) {
+      return res.status(403).json({ success: false, message: `You do not have: ${notHeld.join(', ')}` });
+    }
+
+    const days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_API_TOKEN_DAYS) {
+      return res.status(400).json({
+        success: false,
+        message: `expiresInDays must be a whole number between 1 and ${MAX_API_TOKEN_DAYS}`
+      });
+    }
+
+    const { token, tokenHash, prefix } = generateApiToken();
+    const apiToken = await ApiToken.create({
+      user: req.user._id,
+      name: String(name).trim(),
+      tokenHash,
+      prefix,
+      scopes: [...new Set(scopes)],
+      access,
+      expiresAt: apiTokenExpiry(days)
+    });
+
+    const { tokenHash: _hash, ...data } = apiToken.toObject();
+    return res.status(201).json({ success: true, data: { ...data, token } });
+  } catch (error) {
+    console.error('Create API token error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Revoke an API token; users with user:manage may revoke anyone's
+router.delete('/:id', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid token ID format' });
+    }
+
+    const filter = hasPermission(req, 'user:manage') ? { _id: id } : { _id: id, user: req.user?._id };
+    const apiToken = await ApiToken.findOne(filter);
+
+    if (!apiToken) {
+      return res.status(404).json({ success: false, message: 'Token not found' });
+    }
+
+    if (!apiToken.revokedAt) {
+      apiToken.revokedAt = new Date();
+      await apiToken.save();
+    }
+
+    return res.json({ success: true, message: 'Token revoked' });
+  } catch (error) {
+    console.error('Revoke API token error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,49 +1,114 @@
 // server/src/routes/auth.ts
 import express, { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
 import User, { IUser } from '../models/User';
-import { protect } from '../middleware/auth';
+import Invitation from '../models/Invitation';
+import Team from '../models/Team';
+import { protect, requireSession } from '../middleware/auth';
 import { AuthRequest } from '../types';
+import { createSession, rotateRefreshToken, revokeSession, revokeAllSessions, hashToken } from '../utils/sessions';
+import { registrationError } from '../utils/registration';
+import { loginRetryAfter, recordLoginFailure, recordLoginSuccess } from '../utils/loginThrottle';
+import {
+  signTwoFactorChallenge,
+  twoFactorRequiredFor,
+  verifySecondFactor,
+  verifyTwoFactorChallenge
+} from '../utils/twoFactor';
+import twoFactorRoutes from './twoFactor';
+import {
+  consumeAuthToken,
+  requireVerifiedEmail,
+  sendPasswordResetEmail,
+  sendVerificationEmail
+} from '../utils/authTokens';
 
 const router = express.Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback_secret_key_change_this_in_production';
+// Compared against when the email is unknown, so a failed login takes as long
+// whether or not the account exists (same cost factor as stored passwords)
+const DUMMY_PASSWORD_HASH = '$2b$12$/zGJ8gJtiwQbDC.1RZ.xLeuKq/W4bk.Wkstf3UOK9AkCIYTpWTla2';
+
+router.use('/2fa', twoFactorRoutes);
 
 // Login route
 router.post('/login', async (req: Request, res: Response) => {
   const { email, password } = req.body;
 
   try {
-    // Find user by email (password is selected for comparison)
-    const user = await User.findOne({ email, isActive: true }).select('+password') as IUser | null;
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Email and password are required' 
+      });
+    }
 
-    if (!user) {
-      return res.status(401).json({ 
+    // Backoff/lockout per IP and per email, checked before touching the password.
+    // Same answer whether or not the email exists.
+    const retryAfter = await loginRetryAfter(req.ip, email);
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ 
         success: false,
-        message: 'Invalid credentials' 
+        message: 'Too many failed login attempts. Please try again later.',
+        retryAfter
       });
     }
 
+    // Find user by email (password is selected for comparison)
+    const user = await User.findOne({ email, isActive: true }).select('+password') as IUser | null;
+
     // Compare password (this will use the hashed password from DB)
-    const isMatch = await user.comparePassword(password);
+    const isMatch = user
+      ? await user.comparePassword(password)
+      : await bcrypt.compare(password, DUMMY_PASSWORD_HASH).then(() => false);
     
-    if (!isMatch) {
+    if (!user || !isMatch) {
+      await recordLoginFailure(req.ip, email);
       return res.status(401).json({ 
         success: false,
         message: 'Invalid credentials' 
       });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user._id.toString(), role: user.role },
-      JWT_SECRET, 
-      { expiresIn: '7d' }
+    // Only checked after the password so it does not reveal which emails exist
+    if (requireVerifiedEmail() && !user.emailVerifiedAt) {
+      return res.status(403).json({ 
+        success: false,
+        code: 'EMAIL_NOT_VERIFIED',
+        message: 'Please verify your email address before logging in' 
+      });
+    }
+
+    // Enrolled users get no session until the second factor is checked at /login/2fa
+    if (user.twoFactor?.enabled) {
+      return res.json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: await signTwoFactorChallenge(user)
+      });
+    }
+
+    // The lockout counter is cleared only once login fully succeeds, so with
+    // two-factor auth it keeps counting wrong codes across password re-entries
+    await recordLoginSuccess(email);
+
+    // When policy requires 2FA for this role, the session can only be used to enrol
+    const twoFactorSetupRequired = await twoFactorRequiredFor(user);
+
+    // Start a session: short-lived access token plus a rotating refresh token
+    const { token, refreshToken, expiresIn } = await createSession(
+      user,
+      req,
+      twoFactorSetupRequired ? 'two-factor-setup' : undefined
     );
 
     return res.json({
       success: true,
       token,
+      refreshToken,
+      expiresIn,
+      ...(twoFactorSetupRequired && { twoFactorSetupRequired }),
       user: {
         id: user._id.toString(),
         name: user.name,
@@ -61,10 +126,86 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+// Second login step for users with two-factor auth: a TOTP code or a recovery code
+router.post('/login/2fa', async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    // Consumed here whatever the outcome; a wrong code gets a new challenge below
+    const userId = typeof challengeToken === 'string' ? await verifyTwoFactorChallenge(challengeToken) : null;
+    const user = userId ? await User.findOne({ _id: userId, isActive: true }) : null;
+
+    if (!user) {
+      return res.status(401).json({ 
+        success: false,
+        message: 'Login challenge is invalid or has expired' 
+      });
+    }
+
+    // Wrong codes count towards the same backoff/lockout as wrong passwords
+    const retryAfter = await loginRetryAfter(req.ip, user.email);
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ 
+        success: false,
+        message: 'Too many failed login attempts. Please try again later.',
+        retryAfter
+      });
+    }
+
+    const verified = await verifySecondFactor(user._id, {
+      code: typeof code === 'string' ? code : undefined,
+      recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : undefined
+    });
+
+    if (!verified) {
+      await recordLoginFailure(req.ip, user.email);
+      return res.status(401).json({ 
+        success: false,
+        message: 'Invalid authentication code',
+        challengeToken: await signTwoFactorChallenge(user)
+      });
+    }
+
+    await recordLoginSuccess(user.email);
+
+    const { token, refreshToken, expiresIn } = await createSession(user, req);
+
+    return res.json({
+      success: true,
+      token,
+      refreshToken,
+      expiresIn,
+      user: {
+        id: user._id.toString(),
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        isActive: user.isActive,
+      },
+    });
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error during login' 
+    });
+  }
+});
+
 // Registration route
 router.post('/register', async (req: Request, res: Response) => {
   try {
-    const { name, email, password, role = 'user' } = req.body;
+    const { name, email, password } = req.body;
+    
+    // Public registration may be closed or limited to some email domains
+    const notAllowed = registrationError(email);
+    if (notAllowed) {
+      return res.status(403).json({ 
+        success: false,
+        message: notAllowed 
+      });
+    }
     
     // Check if user already exists
     const existingUser = await User.findOne({ email });
@@ -80,22 +221,41 @@ router.post('/register', async (req: Request, res: Response) => {
       name,
       email,
       password, // This is the plain password - mongoose will hash it
-      role
+      role: 'user' // Elevated roles only come from an admin or an invitation
     });
     
     // Save user - this triggers the pre-save hook
     await user.save();
     
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user._id.toString(), role: user.role },
-      JWT_SECRET,
-      { expiresIn: '7d' } 
-    );
+    // A mail outage should not fail the registration; the user can ask for a resend
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+    
+    // No session until the email is confirmed when verification is required
+    if (requireVerifiedEmail()) {
+      return res.status(201).json({
+        success: true,
+        message: 'Registration successful. Check your email to verify your address.',
+        user: {
+          id: user._id.toString(),
+          name: user.name,
+          email: user.email,
+          role: user.role
+        }
+      });
+    }
+    
+    // Start a session for the new user
+    const { token, refreshToken, expiresIn } = await createSession(user, req);
     
     return res.status(201).json({
       success: true,
       token,
+      refreshToken,
+      expiresIn,
       user: {
         id: user._id.toString(),
         name: user.name,
@@ -122,6 +282,303 @@ router.post('/register', async (req: Request, res: Response) => {
   }
 });
 
+// Create an account from an admin invitation (works whatever the registration mode)
+router.post('/accept-invite', async (req: Request, res: Response) => {
+  try {
+    const { token, name, password } = req.body;
+
+    if (!name || !password || typeof password !== 'string' || password.length < 6) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Name and a password of at least 6 characters are required' 
+      });
+    }
+
+    const invitation = typeof token === 'string'
+      ? await Invitation.findOne({ tokenHash: hashToken(token), acceptedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } })
+      : null;
+
+    if (!invitation) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Invalid or expired invitation' 
+      });
+    }
+
+    // Emails are stored as typed, invitations lowercased
+    if (await User.exists({ email: invitation.email }).collation({ locale: 'en', strength: 2 })) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'User already exists' 
+      });
+    }
+
+    // The invitation email proves the address, so it counts as verified
+    const user = new User({
+      name,
+      email: invitation.email,
+      password,
+      role: invitation.role,
+      emailVerifiedAt: new Date()
+    });
+
+    try {
+      await user.validate();
+    } catch (validationError) {
+      return res.status(400).json({ 
+        success: false,
+        message: validationError instanceof Error ? validationError.message : 'Invalid account details' 
+      });
+    }
+
+    // Claim the invitation atomically so it can only be used once, and only
+    // after everything that could reject the request has passed
+    const claimed = await Invitation.updateOne(
+      { _id: invitation._id, acceptedAt: null },
+      { $set: { acceptedAt: new Date() } }
+    );
+    if (claimed.modifiedCount === 0) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Invalid or expired invitation' 
+      });
+    }
+
+    try {
+      await user.save();
+    } catch (saveError) {
+      // Give the invitation back so the invitee can try again
+      await Invitation.updateOne({ _id: invitation._id }, { $unset: { acceptedAt: 1 } });
+      throw saveError;
+    }
+
+    await Invitation.updateOne({ _id: invitation._id }, { $set: { acceptedBy: user._id } });
+
+    if (invitation.team) {
+      await Team.updateOne({ _id: invitation.team }, { $addToSet: { members: user._id } });
+    }
+
+    const { token: accessToken, refreshToken, expiresIn } = await createSession(user, req);
+
+    return res.status(201).json({
+      success: true,
+      token: accessToken,
+      refreshToken,
+      expiresIn,
+      user: {
+        id: user._id.toString(),
+        name: user.name,
+        email: user.email,
+        role: user.role
+      }
+    });
+  } catch (error) {
+    console.error('Accept invite error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error while accepting invitation' 
+    });
+  }
+});
+
+// Confirm an email address with the token from the verification email
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    const userId = typeof token === 'string' ? await consumeAuthToken(token, 'email-verification') : null;
+    if (!userId) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Invalid or expired verification link' 
+      });
+    }
+
+    await User.updateOne({ _id: userId, emailVerifiedAt: null }, { $set: { emailVerifiedAt: new Date() } });
+
+    return res.json({ success: true, message: 'Email verified' });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error during email verification' 
+    });
+  }
+});
+
+// Send a fresh verification email. Open to logged-out users, since unverified
+// accounts cannot log in, and always answers the same way so it does not reveal
+// whether the email is registered or already verified.
+router.post('/verify-email/resend', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    const user = typeof email === 'string'
+      ? await User.findOne({ email, isActive: true, emailVerifiedAt: null })
+      : null;
+    if (user) {
+      // Errors are logged, not returned, to keep the response identical
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error('Verification email error:', mailError);
+      }
+    }
+
+    return res.json({ 
+      success: true,
+      message: 'If that email is registered and not yet verified, a verification link has been sent' 
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error while sending verification email' 
+    });
+  }
+});
+
+// Request a password reset email. Always answers the same way so it does not
+// reveal whether the email is registered.
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    const user = typeof email === 'string' ? await User.findOne({ email, isActive: true }) : null;
+    if (user) {
+      // Errors are logged, not returned, to keep the response identical
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (mailError) {
+        console.error('Password reset email error:', mailError);
+      }
+    }
+
+    return res.json({ 
+      success: true,
+      message: 'If that email is registered, a reset link has been sent' 
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error while requesting password reset' 
+    });
+  }
+});
+
+// Set a new password with the token from the reset email
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!password || typeof password !== 'string' || password.length < 6) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Password must be at least 6 characters' 
+      });
+    }
+
+    const userId = typeof token === 'string' ? await consumeAuthToken(token, 'password-reset') : null;
+    const user = userId ? await User.findById(userId) : null;
+    if (!user) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Invalid or expired reset link' 
+      });
+    }
+
+    // Hashed by the pre-save hook. Receiving the email also proves the address.
+    user.password = password;
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    // Sign out everywhere in case the old password was compromised
+    await revokeAllSessions(user._id, 'password-changed');
+
+    return res.json({ success: true, message: 'Password has been reset. Please log in.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error during password reset' 
+    });
+  }
+});
+
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Refresh token is required' 
+      });
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+    if (!result) {
+      return res.status(401).json({ 
+        success: false,
+        message: 'Invalid or expired refresh token' 
+      });
+    }
+
+    return res.json({
+      success: true,
+      token: result.token,
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error during token refresh' 
+    });
+  }
+});
+
+// Log out of the current session
+router.post('/logout', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    if (req.sessionId) {
+      await revokeSession(req.sessionId, 'logout');
+    }
+
+    return res.json({ success: true, message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error during logout' 
+    });
+  }
+});
+
+// Log out of every session of the current user
+router.post('/logout-all', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    await revokeAllSessions(req.user._id, 'logout-all');
+
+    return res.json({ success: true, message: 'Logged out of all sessions' });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error during logout' 
+    });
+  }
+});
+
 // Get current logged-in user
 router.get('/me', protect, (req: AuthRequest, res: Response) => {
   if (!req.user) {
@@ -135,6 +592,8 @@ router.get('/me', protect, (req: AuthRequest, res: Response) => {
       email: req.user.email,
       role: req.user.role,
       isActive: req.user.isActive,
+      permissions: req.permissions || [],
+      twoFactorEnabled: Boolean(req.user.twoFactor?.enabled),
     },
   });
 });
@@ -0,0 +1,143 @@
+// server/src/routes/calendarFeeds.ts
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Team from '../models/Team';
+import User, { IUser } from '../models/User';
+import { protect, requireSession } from '../middleware/auth';
+import { AuthRequest } from '../types';
+import { hashToken } from '../utils/sessions';
+import { Permission, resolvePermissions } from '../utils/permissions';
+import { availabilityToIcs } from '../utils/ical';
+import { buildAvailabilityCalendar } from '../utils/teamCalendar';
+
+const router = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+// Calendar apps cannot send headers, so feeds are authorised by the ?token=
+// secret of the subscribing user and show what that user may see
+const feedReader = async (req: Request): Promise<{ user: IUser; permissions: Permission[] } | null> => {
+  const { token } = req.query;
+  if (typeof token !== 'string' || token.length === 0) {
+    return null;
+  }
+
+  const user = await User.findOne({ calendarFeedTokenHash: hashToken(token), isActive: true });
+  return user ? { user, permissions: await resolvePermissions(user) } : null;
+};
+
+const feedWindow = () => ({
+  from: new Date(Date.now() - FEED_PAST_DAYS * DAY_MS),
+  to: new Date(Date.now() + FEED_FUTURE_DAYS * DAY_MS)
+});
+
+const sendIcs = (res: Response, filename: string, body: string) => {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', `inline; filename="${filename}"`);
+  return res.send(body);
+};
+
+// Create or replace the current user's feed token; old feed URLs stop working
+router.post('/feed-token', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await User.updateOne({ _id: req.user._id }, { $set: { calendarFeedTokenHash: hashToken(token) } });
+
+    return res.json({
+      success: true,
+      data: {
+        token,
+        userFeed: `/api/calendar/users/${req.user._id}.ics?token=${token}`,
+        teamFeed: `/api/calendar/teams/<teamId>.ics?token=${token}`
+      }
+    });
+  } catch (error) {
+    console.error('Create calendar feed token error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Turn off the current user's feeds
+router.delete('/feed-token', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    await User.updateOne({ _id: req.user?._id }, { $unset: { calendarFeedTokenHash: 1 } });
+    return res.json({ success: true, message: 'Calendar feeds disabled' });
+  } catch (error) {
+    console.error('Delete calendar feed token error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// A user's leave and due tasks: their own feed, or anyone's with leave:read-all
+router.get('/users/:userId.ics', async (req: Request, res: Response) => {
+  try {
+    const reader = await feedReader(req);
+    if (!reader) {
+      return res.status(401).json({ message: 'Invalid calendar feed token' });
+    }
+
+    const { userId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID format' });
+    }
+
+    if (!reader.user._id.equals(userId) && !reader.permissions.includes('leave:read-all')) {
+      return res.status(403).json({ message: 'Not authorized to view this calendar' });
+    }
+
+    const user = await User.findById(userId, 'name');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { from, to } = feedWindow();
+    const calendar = await buildAvailabilityCalendar([user._id], from, to, reader);
+
+    return sendIcs(res, `${user._id}.ics`, availabilityToIcs(user.name, calendar));
+  } catch (error) {
+    console.error('User calendar feed error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// A team's leave and due tasks, for its members and holders of team:read
+router.get('/teams/:teamId.ics', async (req: Request, res: Response) => {
+  try {
+    const reader = await feedReader(req);
+    if (!reader) {
+      return res.status(401).json({ message: 'Invalid calendar feed token' });
+    }
+
+    const { teamId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return res.status(400).json({ message: 'Invalid team ID format' });
+    }
+
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return res.status(404).json({ message: 'Team not found' });
+    }
+
+    const isMember = team.members.some(member => member.equals(reader.user._id));
+    if (!isMember && !reader.permissions.includes('team:read')) {
+      return res.status(403).json({ message: 'Not authorized to view this calendar' });
+    }
+
+    const { from, to } = feedWindow();
+    const calendar = await buildAvailabilityCalendar(team.members, from, to, reader);
+
+    return sendIcs(res, `${team._id}.ics`, availabilityToIcs(team.name, calendar));
+  } catch (error) {
+    console.error('Team calendar feed error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
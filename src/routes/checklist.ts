@@ -0,0 +1,185 @@
+// server/src/routes/checklist.ts
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { ITask } from '../models/Task';
+import { protect } from '../middleware/auth';
+import { AuthRequest } from '../types';
+import { loadAccessibleTask, assigneeIds, canMoveTask } from '../utils/taskAccess';
+import { recordChecklistUpdated, snapshotChecklist, TaskSnapshot } from '../utils/activity';
+import { io } from '../server';
+
+// Mounted at /api/tasks/:id/checklist
+const router = express.Router({ mergeParams: true });
+
+const sortedItems = (task: ITask) => [...task.checklist].sort((a, b) => a.order - b.order);
+
+// Save, log, populate and push the task out through the usual taskUpdated event.
+// `before` is the checklist snapshot taken before the change.
+const saveAndNotify = async (task: ITask, before: TaskSnapshot[], req: AuthRequest, res: Response, status = 200) => {
+  try {
+    await task.save();
+  } catch (error) {
+    // Another edit removed or reordered items since this task was loaded
+    if (error instanceof mongoose.Error.VersionError) {
+      return res.status(409).json({ message: 'Checklist was changed by someone else, please reload' });
+    }
+    throw error;
+  }
+
+  await recordChecklistUpdated(task._id, before, snapshotChecklist(task), req.user!._id);
+
+  await task.populate('assignedTo', 'name email');
+  await task.populate('assignedBy', 'name email');
+  await task.populate('projectId', 'name');
+  await task.populate('checklist.assignee', 'name email');
+
+  new Set([...assigneeIds(task), req.user!._id.toString()]).forEach(room => {
+    io.to(room).emit('taskUpdated', task);
+  });
+
+  return res.status(status).json({ task, checklist: sortedItems(task), progress: task.progress });
+};
+
+const validateAssignee = async (assignee: any, res: Response): Promise<boolean> => {
+  if (assignee === undefined || assignee === null) {
+    return true;
+  }
+  if (!mongoose.Types.ObjectId.isValid(assignee) || !(await User.exists({ _id: assignee }))) {
+    res.status(400).json({ message: 'Checklist assignee does not exist' });
+    return false;
+  }
+  return true;
+};
+
+// Get checklist items in order
+router.get('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    await task.populate('checklist.assignee', 'name email');
+
+    return res.json({ checklist: sortedItems(task), progress: task.progress });
+  } catch (error) {
+    console.error('Get checklist error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Add a checklist item at the end
+router.post('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res, canMoveTask);
+    if (!task) return;
+
+    const { text, assignee } = req.body;
+
+    if (!text || typeof text !== 'string' || text.trim().length === 0) {
+      return res.status(400).json({ message: 'Checklist item text is required' });
+    }
+
+    if (!(await validateAssignee(assignee, res))) return;
+
+    const before = snapshotChecklist(task);
+    const lastOrder = task.checklist.reduce((max, item) => Math.max(max, item.order), -1);
+    task.checklist.push({ text: text.trim(), assignee: assignee || undefined, order: lastOrder + 1 });
+
+    return await saveAndNotify(task, before, req, res, 201);
+  } catch (error) {
+    console.error('Add checklist item error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Reorder checklist items; body.itemIds lists every item in its new order
+router.put('/order', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res, canMoveTask);
+    if (!task) return;
+
+    const { itemIds } = req.body;
+    const currentIds = task.checklist.map(item => item._id.toString());
+
+    if (!Array.isArray(itemIds)
+      || itemIds.length !== currentIds.length
+      || new Set(itemIds.map(String)).size !== currentIds.length
+      || !itemIds.every((itemId: any) => currentIds.includes(String(itemId)))) {
+      return res.status(400).json({ message: 'itemIds must list every checklist item exactly once' });
+    }
+
+    const before = snapshotChecklist(task);
+    itemIds.forEach((itemId: any, index: number) => {
+      task.checklist.id(itemId)!.order = index;
+    });
+
+    return await saveAndNotify(task, before, req, res);
+  } catch (error) {
+    console.error('Reorder checklist error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update a checklist item (text, done, assignee)
+router.put('/:itemId', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res, canMoveTask);
+    if (!task) return;
+
+    const { itemId } = req.params;
+    const { text, done, assignee } = req.body;
+
+    const item = mongoose.Types.ObjectId.isValid(itemId) ? task.checklist.id(itemId) : null;
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    const before = snapshotChecklist(task);
+    if (text !== undefined) {
+      if (typeof text !== 'string' || text.trim().length === 0) {
+        return res.status(400).json({ message: 'Checklist item text cannot be empty' });
+      }
+      item.text = text.trim();
+    }
+
+    if (done !== undefined) {
+      item.done = Boolean(done);
+      item.completedAt = item.done ? new Date() : undefined;
+    }
+
+    if (assignee !== undefined) {
+      if (!(await validateAssignee(assignee, res))) return;
+      item.assignee = assignee || undefined;
+    }
+
+    return await saveAndNotify(task, before, req, res);
+  } catch (error) {
+    console.error('Update checklist item error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Remove a checklist item
+router.delete('/:itemId', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res, canMoveTask);
+    if (!task) return;
+
+    const { itemId } = req.params;
+
+    const item = mongoose.Types.ObjectId.isValid(itemId) ? task.checklist.id(itemId) : null;
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    const before = snapshotChecklist(task);
+    task.checklist.pull(item._id);
+
+    return await saveAndNotify(task, before, req, res);
+  } catch (error) {
+    console.error('Delete checklist item error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
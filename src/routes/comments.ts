@@ -0,0 +1,199 @@
+// server/src/routes/comments.ts
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
+import Comment from '../models/Comment';
+import User from '../models/User';
+import { protect } from '../middleware/auth';
+import { hasPermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
+import { loadAccessibleTask, assigneeIds, canAccessTask } from '../utils/taskAccess';
+import { resolvePermissions } from '../utils/permissions';
+import { io } from '../server';
+
+// Mounted at /api/tasks/:id/comments
+const router = express.Router({ mergeParams: true });
+
+// Everyone who should see live comment changes on a task
+const notifyTaskRooms = (rooms: string[], event: string, payload: any) => {
+  new Set(rooms).forEach(room => io.to(room).emit(event, payload));
+};
+
+// Get comments for a task (oldest first so threads read top-down)
+router.get('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    const comments = await Comment.find({ task: task._id })
+      .populate('author', 'name email')
+      .populate('mentions', 'name email')
+      .sort({ createdAt: 1 });
+
+    return res.json({ comments });
+  } catch (error) {
+    console.error('Get comments error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Add a comment (optionally as a reply and with @mentions)
+router.post('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    const user = req.user!;
+    const { content, parentId, mentions = [] } = req.body;
+
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      return res.status(400).json({ message: 'Comment content is required' });
+    }
+
+    if (parentId) {
+      if (!mongoose.Types.ObjectId.isValid(parentId)) {
+        return res.status(400).json({ message: 'Invalid parent comment ID format' });
+      }
+
+      const parent = await Comment.findOne({ _id: parentId, task: task._id });
+      if (!parent) {
+        return res.status(404).json({ message: 'Parent comment not found' });
+      }
+    }
+
+    if (!Array.isArray(mentions) || !mentions.every(id => mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ message: 'Mentions must be an array of user IDs' });
+    }
+
+    const mentionedUsers = await User.find({ _id: { $in: mentions }, isActive: true }).select('-password');
+    if (mentionedUsers.length !== new Set(mentions.map(String)).size) {
+      return res.status(400).json({ message: 'One or more mentioned users do not exist' });
+    }
+
+    // A mention delivers the comment, so only people who can see the task may be mentioned
+    for (const mentioned of mentionedUsers) {
+      if (!(await canAccessTask(task, mentioned, await resolvePermissions(mentioned)))) {
+        return res.status(400).json({ message: `${mentioned.name} cannot see this task and cannot be mentioned` });
+      }
+    }
+
+    const comment = new Comment({
+      task: task._id,
+      author: user._id,
+      content: content.trim(),
+      parent: parentId || undefined,
+      mentions: mentionedUsers.map(mentioned => mentioned._id)
+    });
+
+    await comment.save();
+
+    await comment.populate('author', 'name email');
+    await comment.populate('mentions', 'name email');
+
+    notifyTaskRooms([...assigneeIds(task), task.assignedBy.toString()], 'commentAdded', comment);
+
+    // Mentioned users hear about it in their personal room
+    mentionedUsers.forEach(mentioned => {
+      if (mentioned._id.toString() !== user._id.toString()) {
+        io.to(mentioned._id.toString()).emit('commentMention', {
+          taskId: task._id.toString(),
+          comment
+        });
+      }
+    });
+
+    return res.status(201).json({ comment });
+  } catch (error) {
+    console.error('Create comment error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Edit a comment (author only)
+router.put('/:commentId', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    const user = req.user!;
+    const { commentId } = req.params;
+    const { content } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(commentId)) {
+      return res.status(400).json({ message: 'Invalid comment ID format' });
+    }
+
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      return res.status(400).json({ message: 'Comment content is required' });
+    }
+
+    const comment = await Comment.findOne({ _id: commentId, task: task._id });
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    if (comment.author.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: 'Only the author can edit this comment' });
+    }
+
+    comment.content = content.trim();
+    comment.editedAt = new Date();
+    await comment.save();
+
+    await comment.populate('author', 'name email');
+    await comment.populate('mentions', 'name email');
+
+    notifyTaskRooms([...assigneeIds(task), task.assignedBy.toString()], 'commentUpdated', comment);
+
+    return res.json({ comment });
+  } catch (error) {
+    console.error('Update comment error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete a comment and its replies (author or moderator)
+router.delete('/:commentId', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    const user = req.user!;
+    const { commentId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(commentId)) {
+      return res.status(400).json({ message: 'Invalid comment ID format' });
+    }
+
+    const comment = await Comment.findOne({ _id: commentId, task: task._id });
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    if (!hasPermission(req, 'comment:moderate') && comment.author.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    // Collect the whole reply subtree so no orphaned replies are left behind
+    const toDelete = [comment._id];
+    let frontier = [comment._id];
+    while (frontier.length > 0) {
+      const replies = await Comment.find({ parent: { $in: frontier } }, '_id');
+      frontier = replies.map(reply => reply._id);
+      toDelete.push(...frontier);
+    }
+
+    await Comment.deleteMany({ _id: { $in: toDelete } });
+
+    notifyTaskRooms([...assigneeIds(task), task.assignedBy.toString()], 'commentDeleted', {
+      taskId: task._id.toString(),
+      commentIds: toDelete.map(id => id.toString())
+    });
+
+    return res.json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
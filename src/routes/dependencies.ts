@@ -0,0 +1,121 @@
+// server/src/routes/dependencies.ts
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
+import Task, { ITask } from '../models/Task';
+import { protect } from '../middleware/auth';
+import { hasPermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
+import { loadAccessibleTask, assigneeIds, canAccessTask } from '../utils/taskAccess';
+import { wouldCreateCycle, openBlockers } from '../utils/dependencies';
+import { io } from '../server';
+
+// Mounted at /api/tasks/:id/dependencies
+const router = express.Router({ mergeParams: true });
+
+// Only task editors and the task creator may change what blocks a task
+const canEditDependencies = (task: ITask, req: AuthRequest) =>
+  hasPermission(req, 'task:update') || task.assignedBy.toString() === req.user!._id.toString();
+
+const notifyTaskUpdated = async (task: ITask, req: AuthRequest) => {
+  await task.populate('assignedTo', 'name email');
+  await task.populate('assignedBy', 'name email');
+  await task.populate('projectId', 'name');
+
+  new Set([...assigneeIds(task), req.user!._id.toString()]).forEach(room => {
+    io.to(room).emit('taskUpdated', task);
+  });
+};
+
+// Get blockers of this task and the tasks it blocks
+router.get('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    const blockedBy = await Task.find({ _id: { $in: task.blockedBy } }, 'title status projectId')
+      .populate('projectId', 'name');
+    const blocking = await Task.find({ blockedBy: task._id }, 'title status projectId')
+      .populate('projectId', 'name');
+    const open = await openBlockers(task);
+
+    return res.json({
+      blockedBy,
+      blocking,
+      openBlockers: open.map(blocker => blocker._id.toString())
+    });
+  } catch (error) {
+    console.error('Get dependencies error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Mark this task as blocked by another task (any project)
+router.post('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    if (!canEditDependencies(task, req)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const { blockerId } = req.body;
+
+    if (!blockerId || !mongoose.Types.ObjectId.isValid(blockerId)) {
+      return res.status(400).json({ message: 'Invalid blocker task ID format' });
+    }
+
+    // Tasks the user cannot see are reported as missing
+    const blocker = await Task.findById(blockerId);
+    if (!blocker || !(await canAccessTask(blocker, req.user!, req.permissions))) {
+      return res.status(404).json({ message: 'Blocker task not found' });
+    }
+
+    if (task.blockedBy.some(id => id.equals(blocker._id))) {
+      return res.status(400).json({ message: 'Dependency already exists' });
+    }
+
+    if (await wouldCreateCycle(task._id, blocker._id)) {
+      return res.status(409).json({ message: 'Dependency would create a cycle' });
+    }
+
+    task.blockedBy.push(blocker._id);
+    await task.save();
+    await notifyTaskUpdated(task, req);
+
+    return res.status(201).json({ task });
+  } catch (error) {
+    console.error('Add dependency error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Remove a blocker from this task
+router.delete('/:blockerId', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await loadAccessibleTask(req, res);
+    if (!task) return;
+
+    if (!canEditDependencies(task, req)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const { blockerId } = req.params;
+    const before = task.blockedBy.length;
+    task.blockedBy = task.blockedBy.filter(id => id.toString() !== blockerId);
+
+    if (task.blockedBy.length === before) {
+      return res.status(404).json({ message: 'Dependency not found' });
+    }
+
+    await task.save();
+    await notifyTaskUpdated(task, req);
+
+    return res.json({ task });
+  } catch (error) {
+    console.error('Remove dependency error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,193 @@
+// server/src/routes/holidayCalendars.ts
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import HolidayCalendar from '../models/HolidayCalendar';
+import User from '../models/User';
+import { protect } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+import { startOfDay } from '../utils/workingDays';
+
+const router = express.Router();
+
+const isWeekendList = (value: unknown) =>
+  Array.isArray(value) && value.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+
+// Normalises holidays from the body, or returns an error message
+const parseHolidays = (value: unknown): { date: Date; name: string; halfDay: boolean }[] | string => {
+  if (!Array.isArray(value)) {
+    return 'holidays must be a list';
+  }
+
+  const holidays = [];
+  for (const holiday of value) {
+    const date = startOfDay(new Date(holiday?.date));
+    if (isNaN(date.getTime()) || !holiday.name || String(holiday.name).trim().length === 0) {
+      return 'Every holiday needs a valid date and a name';
+    }
+    holidays.push({ date, name: String(holiday.name).trim(), halfDay: Boolean(holiday.halfDay) });
+  }
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Only one calendar can be the default
+const makeDefault = async (calendarId: mongoose.Types.ObjectId) => {
+  await HolidayCalendar.updateMany({ _id: { $ne: calendarId }, isDefault: true }, { $set: { isDefault: false } });
+};
+
+// Get all holiday calendars
+router.get('/', protect, async (req: Request, res: Response) => {
+  try {
+    const calendars = await HolidayCalendar.find({}).sort({ name: 1 });
+    return res.json({ success: true, data: calendars });
+  } catch (error) {
+    console.error('Get holiday calendars error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Get a single holiday calendar
+router.get('/:id', protect, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid calendar ID format' });
+    }
+
+    const calendar = await HolidayCalendar.findById(id);
+    if (!calendar) {
+      return res.status(404).json({ success: false, message: 'Holiday calendar not found' });
+    }
+
+    return res.json({ success: true, data: calendar });
+  } catch (error) {
+    console.error('Get holiday calendar error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Create a holiday calendar
+router.post('/', protect, requirePermission('leave:configure'), async (req: Request, res: Response) => {
+  try {
+    const { name, weekendDays = [0, 6], holidays = [], isDefault = false } = req.body;
+
+    if (!name || String(name).trim().length === 0) {
+      return res.status(400).json({ success: false, message: 'Calendar name is required' });
+    }
+
+    if (!isWeekendList(weekendDays)) {
+      return res.status(400).json({ success: false, message: 'weekendDays must be day numbers from 0 (Sunday) to 6' });
+    }
+
+    const parsed = parseHolidays(holidays);
+    if (typeof parsed === 'string') {
+      return res.status(400).json({ success: false, message: parsed });
+    }
+
+    if (await HolidayCalendar.exists({ name: String(name).trim() })) {
+      return res.status(400).json({ success: false, message: 'A calendar with this name already exists' });
+    }
+
+    const calendar = await HolidayCalendar.create({
+      name: String(name).trim(),
+      weekendDays: [...new Set<number>(weekendDays)],
+      holidays: parsed,
+      isDefault: Boolean(isDefault)
+    });
+
+    if (calendar.isDefault) {
+      await makeDefault(calendar._id);
+    }
+
+    return res.status(201).json({ success: true, data: calendar });
+  } catch (error) {
+    console.error('Create holiday calendar error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Update a holiday calendar; `holidays` replaces the whole list.
+// Requests already made keep the day count they were booked with.
+router.put('/:id', protect, requirePermission('leave:configure'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, weekendDays, holidays, isDefault } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid calendar ID format' });
+    }
+
+    const calendar = await HolidayCalendar.findById(id);
+    if (!calendar) {
+      return res.status(404).json({ success: false, message: 'Holiday calendar not found' });
+    }
+
+    if (name !== undefined) {
+      if (String(name).trim().length === 0) {
+        return res.status(400).json({ success: false, message: 'Calendar name cannot be empty' });
+      }
+      if (await HolidayCalendar.exists({ _id: { $ne: calendar._id }, name: String(name).trim() })) {
+        return res.status(400).json({ success: false, message: 'A calendar with this name already exists' });
+      }
+      calendar.name = String(name).trim();
+    }
+
+    if (weekendDays !== undefined) {
+      if (!isWeekendList(weekendDays)) {
+        return res.status(400).json({ success: false, message: 'weekendDays must be day numbers from 0 (Sunday) to 6' });
+      }
+      calendar.weekendDays = [...new Set<number>(weekendDays)];
+    }
+
+    if (holidays !== undefined) {
+      const parsed = parseHolidays(holidays);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ success: false, message: parsed });
+      }
+      calendar.set('holidays', parsed);
+    }
+
+    if (isDefault !== undefined) {
+      calendar.isDefault = Boolean(isDefault);
+    }
+
+    await calendar.save();
+
+    if (calendar.isDefault) {
+      await makeDefault(calendar._id);
+    }
+
+    return res.json({ success: true, data: calendar });
+  } catch (error) {
+    console.error('Update holiday calendar error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Delete a holiday calendar; its users fall back to the default calendar
+router.delete('/:id', protect, requirePermission('leave:configure'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid calendar ID format' });
+    }
+
+    const calendar = await HolidayCalendar.findByIdAndDelete(id);
+    if (!calendar) {
+      return res.status(404).json({ success: false, message: 'Holiday calendar not found' });
+    }
+
+    const { modifiedCount } = await User.updateMany(
+      { holidayCalendar: calendar._id },
+      { $unset: { holidayCalendar: 1 } }
+    );
+
+    return res.json({ success: true, message: 'Holiday calendar deleted successfully', detachedFrom: modifiedCount });
+  } catch (error) {
+    console.error('Delete holiday calendar error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,120 @@
+// server/src/routes/invitations.ts
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Invitation from '../models/Invitation';
+import Team from '../models/Team';
+import User from '../models/User';
+import { protect } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
+import { hashToken } from '../utils/sessions';
+import { getMailer } from '../mailer';
+
+const router = express.Router();
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Get invitations, newest first; ?status=pending limits to open ones
+router.get('/', protect, requirePermission('user:manage'), async (req: Request, res: Response) => {
+  try {
+    const filter = req.query.status === 'pending'
+      ? { acceptedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } }
+      : {};
+
+    const invitations = await Invitation.find(filter)
+      .select('-tokenHash')
+      .populate('invitedBy', 'name email')
+      .populate('team', 'name')
+      .sort({ createdAt: -1 });
+
+    return res.json({ success: true, data: invitations });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Invite someone by email with a preset role and optional team
+router.post('/', protect, requirePermission('user:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { email, role = 'user', team } = req.body;
+    const admin = req.user;
+
+    if (!admin) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!email || typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      return res.status(400).json({ success: false, message: 'A valid email is required' });
+    }
+
+    if (!['admin', 'user'].includes(role)) {
+      return res.status(400).json({ success: false, message: 'Invalid role. Must be "admin" or "user"' });
+    }
+
+    if (team) {
+      if (!mongoose.Types.ObjectId.isValid(team) || !(await Team.exists({ _id: team }))) {
+        return res.status(404).json({ success: false, message: 'Team not found' });
+      }
+    }
+
+    const normalisedEmail = email.trim().toLowerCase();
+    if (await User.exists({ email: normalisedEmail }).collation({ locale: 'en', strength: 2 })) {
+      return res.status(400).json({ success: false, message: 'User already exists' });
+    }
+
+    // Re-inviting replaces any open invitation for the same address
+    await Invitation.updateMany(
+      { email: normalisedEmail, acceptedAt: null, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invitation = await Invitation.create({
+      email: normalisedEmail,
+      role,
+      team: team || undefined,
+      invitedBy: admin._id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+    });
+
+    const link = `${process.env.CLIENT_URL || 'http://localhost:3000'}/accept-invite?token=${token}`;
+    await getMailer().send({
+      to: normalisedEmail,
+      subject: 'You have been invited to the Kanban board',
+      text: `${admin.name} invited you to join the Kanban board.\n\nAccept the invitation and set up your account here:\n${link}\n\nThe invitation expires in 7 days.`
+    });
+
+    const data = invitation.toObject();
+    delete (data as any).tokenHash;
+
+    return res.status(201).json({ success: true, data });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Revoke an open invitation
+router.delete('/:id', protect, requirePermission('user:manage'), async (req: Request, res: Response) => {
+  try {
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: req.params.id, acceptedAt: null, revokedAt: null },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    ).select('-tokenHash');
+
+    if (!invitation) {
+      return res.status(404).json({ success: false, message: 'Open invitation not found' });
+    }
+
+    return res.json({ success: true, message: 'Invitation revoked' });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
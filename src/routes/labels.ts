@@ -0,0 +1,176 @@
+// server/src/routes/labels.ts
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Label from '../models/Label';
+import Project from '../models/Project';
+import Task from '../models/Task';
+import { protect } from '../middleware/auth';
+import { hasPermission, requirePermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
+import { labelScope } from '../utils/labels';
+import { memberProjectIds } from '../utils/projectAccess';
+import { recordTaskUpdated, snapshotTask } from '../utils/activity';
+
+const router = express.Router();
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Get labels: ?project=<id> returns global labels plus that project's,
+// ?project=global only global ones, and no filter returns everything. Project
+// labels are only listed for projects the user belongs to, unless they can read
+// every task or manage labels.
+router.get('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const { project } = req.query;
+    const user = req.user;
+    let filter = {};
+
+    if (!user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    if (project === 'global') {
+      filter = { project: null };
+    } else if (project) {
+      if (!mongoose.Types.ObjectId.isValid(String(project))) {
+        return res.status(400).json({ message: 'Invalid project ID format' });
+      }
+      filter = labelScope(String(project));
+    }
+
+    const visibility = hasPermission(req, 'task:read-all') || hasPermission(req, 'label:manage')
+      ? {}
+      : { $or: [{ project: null }, { project: { $in: await memberProjectIds(user._id) } }] };
+
+    const labels = await Label.find({ $and: [filter, visibility] })
+      .populate('project', 'name')
+      .sort({ name: 1 });
+
+    return res.json({ labels });
+  } catch (error) {
+    console.error('Get labels error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create label (label:manage)
+router.post('/', protect, requirePermission('label:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, color, project } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    if (!name || String(name).trim().length === 0) {
+      return res.status(400).json({ message: 'Label name is required' });
+    }
+
+    if (!color || !COLOR_PATTERN.test(color)) {
+      return res.status(400).json({ message: 'Label color must be a hex color like #ff8800' });
+    }
+
+    if (project) {
+      if (!mongoose.Types.ObjectId.isValid(project)) {
+        return res.status(400).json({ message: 'Invalid project ID format' });
+      }
+      if (!(await Project.exists({ _id: project }))) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+    }
+
+    const label = new Label({
+      name: String(name).trim(),
+      color,
+      project: project || undefined,
+      createdBy: user._id
+    });
+
+    await label.save();
+
+    return res.status(201).json({ label });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A label with this name already exists' });
+    }
+    console.error('Create label error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update label name or color (label:manage); a label's project cannot change
+router.put('/:id', protect, requirePermission('label:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, color } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid label ID format' });
+    }
+
+    const label = await Label.findById(id);
+    if (!label) {
+      return res.status(404).json({ message: 'Label not found' });
+    }
+
+    if (name !== undefined) {
+      if (String(name).trim().length === 0) {
+        return res.status(400).json({ message: 'Label name is required' });
+      }
+      label.name = String(name).trim();
+    }
+
+    if (color !== undefined) {
+      if (!COLOR_PATTERN.test(color)) {
+        return res.status(400).json({ message: 'Label color must be a hex color like #ff8800' });
+      }
+      label.color = color;
+    }
+
+    await label.save();
+
+    return res.json({ label });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A label with this name already exists' });
+    }
+    console.error('Update label error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete label and detach it from every task (label:manage)
+router.delete('/:id', protect, requirePermission('label:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid label ID format' });
+    }
+
+    const label = await Label.findById(id);
+    if (!label) {
+      return res.status(404).json({ message: 'Label not found' });
+    }
+
+    // Detach first so no task is left pointing at a missing label
+    const tasks = await Task.find({ labels: label._id });
+    const { modifiedCount } = await Task.updateMany({ labels: label._id }, { $pull: { labels: label._id } });
+    await Label.findByIdAndDelete(label._id);
+
+    // Logged like any other label change on the tasks
+    for (const task of tasks) {
+      const before = snapshotTask(task);
+      const after = { ...before, labels: before.labels.filter((labelId: string) => labelId !== label._id.toString()) };
+      await recordTaskUpdated(task._id, before, after, req.user!._id);
+    }
+
+    return res.json({ message: 'Label deleted successfully', detachedFrom: modifiedCount });
+  } catch (error) {
+    console.error('Delete label error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+// server/src/routes/leaveTypes.ts
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Leave from '../models/Leave';
+import LeaveType from '../models/LeaveType';
+import { protect } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+
+const router = express.Router();
+
+const ACCRUALS = ['yearly', 'monthly'];
+
+const isDayCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Checks the allowance fields that are present in the body
+const allowanceError = ({ annualAllowance, accrual, carryOverCap }: any): string | null => {
+  if (annualAllowance !== undefined && !isDayCount(annualAllowance)) {
+    return 'annualAllowance must be a number of days, 0 or more';
+  }
+  if (accrual !== undefined && !ACCRUALS.includes(accrual)) {
+    return `accrual must be one of: ${ACCRUALS.join(', ')}`;
+  }
+  if (carryOverCap !== undefined && !isDayCount(carryOverCap)) {
+    return 'carryOverCap must be a number of days, 0 or more';
+  }
+  return null;
+};
+
+// Get leave types; inactive ones only with ?includeInactive=true
+router.get('/', protect, async (req: Request, res: Response) => {
+  try {
+    const filter = req.query.includeInactive === 'true' ? {} : { isActive: true };
+    const leaveTypes = await LeaveType.find(filter).sort({ name: 1 });
+
+    return res.json({ success: true, data: leaveTypes });
+  } catch (error) {
+    console.error('Get leave types error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Create a leave type
+router.post('/', protect, requirePermission('leave:configure'), async (req: Request, res: Response) => {
+  try {
+    const { name, description, annualAllowance, accrual = 'yearly', carryOverCap = 0 } = req.body;
+
+    if (!name || String(name).trim().length === 0) {
+      return res.status(400).json({ success: false, message: 'Leave type name is required' });
+    }
+
+    if (annualAllowance === undefined) {
+      return res.status(400).json({ success: false, message: 'annualAllowance is required' });
+    }
+
+    const invalid = allowanceError({ annualAllowance, accrual, carryOverCap });
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+
+    const existing = await LeaveType.findOne({ name: String(name).trim() })
+      .collation({ locale: 'en', strength: 2 });
+    if (existing) {
+      return res.status(400).json({ success: false, message: 'A leave type with this name already exists' });
+    }
+
+    const leaveType = await LeaveType.create({
+      name: String(name).trim(),
+      description,
+      annualAllowance,
+      accrual,
+      carryOverCap
+    });
+
+    return res.status(201).json({ success: true, data: leaveType });
+  } catch (error) {
+    console.error('Create leave type error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Update a leave type; allowance changes apply to balances from now on
+router.put('/:id', protect, requirePermission('leave:configure'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, description, annualAllowance, accrual, carryOverCap, isActive } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave type ID format' });
+    }
+
+    const leaveType = await LeaveType.findById(id);
+    if (!leaveType) {
+      return res.status(404).json({ success: false, message: 'Leave type not found' });
+    }
+
+    const invalid = allowanceError({ annualAllowance, accrual, carryOverCap });
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+
+    if (name !== undefined) {
+      if (String(name).trim().length === 0) {
+        return res.status(400).json({ success: false, message: 'Leave type name cannot be empty' });
+      }
+      const existing = await LeaveType.findOne({ _id: { $ne: leaveType._id }, name: String(name).trim() })
+        .collation({ locale: 'en', strength: 2 });
+      if (existing) {
+        return res.status(400).json({ success: false, message: 'A leave type with this name already exists' });
+      }
+      leaveType.name = String(name).trim();
+    }
+
+    if (description !== undefined) leaveType.description = description;
+    if (annualAllowance !== undefined) leaveType.annualAllowance = annualAllowance;
+    if (accrual !== undefined) leaveType.accrual = accrual;
+    if (carryOverCap !== undefined) leaveType.carryOverCap = carryOverCap;
+    if (isActive !== undefined) leaveType.isActive = Boolean(isActive);
+
+    await leaveType.save();
+
+    return res.json({ success: true, data: leaveType });
+  } catch (error) {
+    console.error('Update leave type error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Delete a leave type. Types already used by requests are deactivated instead,
+// so past leave keeps its type.
+router.delete('/:id', protect, requirePermission('leave:configure'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave type ID format' });
+    }
+
+    const leaveType = await LeaveType.findById(id);
+    if (!leaveType) {
+      return res.status(404).json({ success: false, message: 'Leave type not found' });
+    }
+
+    if (await Leave.exists({ leaveType: leaveType._id })) {
+      leaveType.isActive = false;
+      await leaveType.save();
+      return res.json({ success: true, message: 'Leave type is in use and was deactivated', data: leaveType });
+    }
+
+    await LeaveType.findByIdAndDelete(leaveType._id);
+
+    return res.json({ success: true, message: 'Leave type deleted successfully' });
+  } catch (error) {
+    console.error('Delete leave type error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,34 +1,106 @@
 // server/src/routes/leaves.ts
 import express, { Request, Response } from 'express';
-import Leave from '../models/Leave';
+import mongoose from 'mongoose';
+import Leave, { ILeave, LeaveStatus } from '../models/Leave';
+import LeaveType, { ILeaveType } from '../models/LeaveType';
+import Task from '../models/Task';
+import Team from '../models/Team';
 import User from '../models/User';
 import { AuthRequest } from '../types';
 import { protect} from '../middleware/auth';
-import {authorize}from '../middleware/authorize';
+import { hasPermission, requirePermission } from '../middleware/requirePermission';
+import { actingApprover, activeDelegations, buildApprovalChain, pendingApprovalsFilter } from '../utils/leaveApproval';
+import { approverRooms, emitLeaveEvent, missedLeaveEvents, requesterRoom } from '../utils/leaveEvents';
+import { coverageWarnings, findOverlappingLeave } from '../utils/leaveCoverage';
+import { buildHandover, handoverBlocker, handoverCandidates, reassignTask } from '../utils/leaveHandover';
+import { chargedDays, leaveBalance, leaveBalances, leaveDuration } from '../utils/leaveBalance';
+import { calendarCache, startOfDay } from '../utils/workingDays';
 
 const router = express.Router();
 
+const LEAVE_STATUSES: LeaveStatus[] = ['pending', 'approved', 'rejected', 'withdrawn', 'cancelled'];
+const MAX_COMMENT_LENGTH = 1000;
+
+const commentError = (comment: unknown) =>
+  comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)
+    ? `Comment must be text of at most ${MAX_COMMENT_LENGTH} characters`
+    : null;
+
+// Populates everything a client needs to show a leave with its approval trail
+const populateLeave = (leave: ILeave) => leave.populate([
+  { path: 'user', select: 'name email' },
+  { path: 'leaveType', select: 'name' },
+  { path: 'team', select: 'name' },
+  { path: 'approvedBy', select: 'name email' },
+  { path: 'approvals.approver', select: 'name email' },
+  { path: 'approvals.decidedBy', select: 'name email' },
+  { path: 'approvals.onBehalfOf', select: 'name email' },
+  { path: 'history.by', select: 'name email' },
+  { path: 'history.onBehalfOf', select: 'name email' },
+  { path: 'handover.reassignedTo', select: 'name email' },
+  { path: 'handover.reassignedBy', select: 'name email' }
+]);
+
+// The requester, anyone who decided a step, and holders of leave:approve or leave:read-all
+const canSeeHandover = (req: AuthRequest, leave: ILeave) =>
+  leave.user._id.equals(req.user!._id)
+  || leave.approvals.some(approval => approval.decidedBy?.equals(req.user!._id))
+  || hasPermission(req, 'leave:approve')
+  || hasPermission(req, 'leave:read-all');
+
+// Only deciders and leave:approve holders hand tasks over
+const canReassignHandover = (req: AuthRequest, leave: ILeave) =>
+  leave.approvals.some(approval => approval.decidedBy?.equals(req.user!._id))
+  || hasPermission(req, 'leave:approve');
+
 // User: Request leave (any authenticated user)
 router.post('/', protect, async (req: AuthRequest, res: Response) => {
   try {
-    const { startDate, endDate, reason } = req.body;
+    const {
+      startDate,
+      endDate,
+      reason,
+      leaveType: leaveTypeId,
+      team: teamId,
+      halfDayStart = false,
+      halfDayEnd = false
+    } = req.body;
     const user = req.user;
 
     if (!user) {
       return res.status(401).json({ success: false, message: 'User not authenticated' });
     }
 
-    // Validate dates
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Set time to 00:00:00.000
+    // Validate dates; leave is booked in whole days (or halves of them)
+    const start = startOfDay(new Date(startDate));
+    const end = startOfDay(new Date(endDate));
+    const today = startOfDay(new Date());
 
-    
-    if (start >= end) {
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Valid start and end dates are required' 
+      });
+    }
+
+    if (start > end) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'End date cannot be before start date' 
+      });
+    }
+
+    if (typeof halfDayStart !== 'boolean' || typeof halfDayEnd !== 'boolean') {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'halfDayStart and halfDayEnd must be booleans' 
+      });
+    }
+
+    if (start.getTime() === end.getTime() && halfDayStart && halfDayEnd) {
       return res.status(400).json({ 
         success: false, 
-        message: 'End date must be after start date' 
+        message: 'Use halfDayStart or halfDayEnd for a half-day leave, not both' 
       });
     }
 
@@ -39,18 +111,108 @@ router.post('/', protect, async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const overlapping = await findOverlappingLeave(user._id, start, end, { halfDayStart, halfDayEnd });
+    if (overlapping) {
+      return res.status(409).json({ 
+        success: false, 
+        message: `These dates overlap your ${overlapping.status} leave request`,
+        overlapping: {
+          id: overlapping._id.toString(),
+          startDate: overlapping.startDate,
+          endDate: overlapping.endDate,
+          status: overlapping.status
+        }
+      });
+    }
+
+    // Without a leave type the request is not counted against any balance, so
+    // clients from before leave types, and companies without any, keep working
+    let leaveType: ILeaveType | null = null;
+    if (leaveTypeId !== undefined && leaveTypeId !== null && leaveTypeId !== '') {
+      if (!mongoose.Types.ObjectId.isValid(String(leaveTypeId))) {
+        return res.status(400).json({ 
+          success: false, 
+          message: 'Invalid leave type ID format' 
+        });
+      }
+
+      leaveType = await LeaveType.findOne({ _id: leaveTypeId, isActive: true });
+      if (!leaveType) {
+        return res.status(400).json({ 
+          success: false, 
+          message: 'Leave type not found' 
+        });
+      }
+    }
+
+    const days = await leaveDuration(user._id, start, end, { halfDayStart, halfDayEnd });
+    if (days === 0) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'The requested dates contain no working days' 
+      });
+    }
+
+    // Checked against the balance as it will stand when the leave starts
+    if (leaveType) {
+      const balance = await leaveBalance(user._id, leaveType, start);
+      if (days > balance.available) {
+        return res.status(400).json({ 
+          success: false, 
+          message: `Not enough ${leaveType.name} balance: ${days} days requested, ${balance.available} available`,
+          balance
+        });
+      }
+    }
+
+    // The approval chain comes from the chosen team, or the user's first team
+    const teams = await Team.find({ members: user._id }).sort({ createdAt: 1 });
+    const team = teamId ? teams.find(candidate => candidate._id.toString() === String(teamId)) : teams[0];
+    if (teamId && !team) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'You are not a member of this team' 
+      });
+    }
+
     const leave = new Leave({
       user: user._id,
+      leaveType: leaveType?._id,
       startDate: start,
       endDate: end,
+      halfDayStart,
+      halfDayEnd,
+      days,
       reason,
-      status: 'pending'
+      status: 'pending',
+      team: team?._id,
+      approvals: buildApprovalChain(team || null, user._id),
+      currentStep: 0,
+      history: [{ action: 'requested', to: 'pending', by: user._id }]
     });
 
     await leave.save();
 
+    // Concurrent requests can each pass the check above. Once saved, this one
+    // counts as pending, so a negative balance means together they overdraw;
+    // the request is taken back and nothing is overdrawn.
+    if (leaveType) {
+      const balance = await leaveBalance(user._id, leaveType, start);
+      if (balance.available < 0) {
+        await Leave.deleteOne({ _id: leave._id });
+        return res.status(409).json({ 
+          success: false, 
+          message: `Not enough ${leaveType.name} balance left after another request made at the same time` 
+        });
+      }
+    }
+
     // Populate the leave before sending
-    await leave.populate('user', 'name email');
+    await populateLeave(leave);
+
+    for (const room of approverRooms(leave)) {
+      await emitLeaveEvent('leaveRequested', room, leave);
+    }
     
     return res.status(201).json({ success: true, data: leave });
   } catch (error) {
@@ -71,6 +233,7 @@ router.get('/my-requests', protect, async (req: AuthRequest, res: Response) => {
     const leaves = await Leave.find({ user: user._id })
       .sort({ createdAt: -1 })
       .populate('user', 'name email')
+      .populate('leaveType', 'name')
       .populate('approvedBy', 'name email');
 
     return res.json({ success: true, data: leaves });
@@ -80,12 +243,67 @@ router.get('/my-requests', protect, async (req: AuthRequest, res: Response) => {
   }
 });
 
+const parseAsOf = (value: unknown): Date | null => {
+  if (value === undefined) {
+    return new Date();
+  }
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// User: Get own balances per leave type; ?asOf=<date> picks the year and accrual point
+router.get('/balance', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const asOf = parseAsOf(req.query.asOf);
+    if (!asOf) {
+      return res.status(400).json({ success: false, message: 'Invalid asOf date' });
+    }
+
+    return res.json({ success: true, data: await leaveBalances(user._id, asOf) });
+  } catch (error) {
+    console.error('Get leave balance error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Admin: Get balances of a specific user
+router.get('/balance/:userId', protect, requirePermission('leave:read-all'), async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user ID format' });
+    }
+
+    if (!(await User.exists({ _id: userId }))) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const asOf = parseAsOf(req.query.asOf);
+    if (!asOf) {
+      return res.status(400).json({ success: false, message: 'Invalid asOf date' });
+    }
+
+    return res.json({ success: true, data: await leaveBalances(userId, asOf) });
+  } catch (error) {
+    console.error('Get user leave balance error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
 // Admin: Get all leave requests
-router.get('/', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.get('/', protect, requirePermission('leave:read-all'), async (req: Request, res: Response) => {
   try {
     const leaves = await Leave.find({})
       .sort({ createdAt: -1 })
       .populate('user', 'name email')
+      .populate('leaveType', 'name')
       .populate('approvedBy', 'name email');
 
     return res.json({ success: true, data: leaves });
@@ -96,20 +314,21 @@ router.get('/', protect, authorize('admin'), async (req: Request, res: Response)
 });
 
 // Admin: Get leave requests by status
-router.get('/status/:status', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.get('/status/:status', protect, requirePermission('leave:read-all'), async (req: Request, res: Response) => {
   try {
     const { status } = req.params;
     
-    if (!['pending', 'approved', 'rejected'].includes(status)) {
+    if (!LEAVE_STATUSES.includes(status as LeaveStatus)) {
       return res.status(400).json({ 
         success: false, 
-        message: 'Invalid status. Must be pending, approved, or rejected' 
+        message: `Invalid status. Must be one of: ${LEAVE_STATUSES.join(', ')}` 
       });
     }
 
     const leaves = await Leave.find({ status })
       .sort({ createdAt: -1 })
       .populate('user', 'name email')
+      .populate('leaveType', 'name')
       .populate('approvedBy', 'name email');
 
     return res.json({ success: true, data: leaves });
@@ -120,13 +339,14 @@ router.get('/status/:status', protect, authorize('admin'), async (req: Request,
 });
 
 // Admin: Get leave requests for a specific user
-router.get('/user/:userId', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.get('/user/:userId', protect, requirePermission('leave:read-all'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
     const leaves = await Leave.find({ user: userId })
       .sort({ createdAt: -1 })
       .populate('user', 'name email')
+      .populate('leaveType', 'name')
       .populate('approvedBy', 'name email');
 
     return res.json({ success: true, data: leaves });
@@ -136,14 +356,143 @@ router.get('/user/:userId', protect, authorize('admin'), async (req: Request, re
   }
 });
 
-// Admin: Approve or reject leave
-router.put('/:id', protect, authorize('admin'), async (req: AuthRequest, res: Response) => {
+// Approver: Get pending requests waiting on the current user, directly or as a delegate
+router.get('/approvals', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const delegations = await activeDelegations(user._id);
+    const pending = await Leave.find(pendingApprovalsFilter(req, delegations)).sort({ startDate: 1 });
+
+    const waiting: ILeave[] = [];
+    for (const leave of pending) {
+      if (await actingApprover(req, leave, delegations)) {
+        waiting.push(leave);
+      }
+    }
+
+    await Promise.all(waiting.map(populateLeave));
+
+    return res.json({ success: true, data: waiting });
+  } catch (error) {
+    console.error('Get pending approvals error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// User: Get leave events missed while offline, for the user's own and role rooms.
+// ?after=<eventId> resumes after the last event seen; ?since=<date> is the alternative.
+router.get('/events', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    const { after, since, limit } = req.query;
+
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (after !== undefined && !mongoose.Types.ObjectId.isValid(String(after))) {
+      return res.status(400).json({ success: false, message: 'Invalid event ID format' });
+    }
+
+    const sinceDate = since === undefined ? undefined : new Date(String(since));
+    if (sinceDate && isNaN(sinceDate.getTime())) {
+      return res.status(400).json({ success: false, message: 'Invalid since date' });
+    }
+
+    const pageSize = Math.min(Math.max(Number(limit) || 100, 1), 500);
+    const { events, hasMore } = await missedLeaveEvents(user, {
+      afterId: after === undefined ? undefined : String(after),
+      since: sinceDate,
+      limit: pageSize
+    });
+
+    return res.json({ success: true, data: events, hasMore });
+  } catch (error) {
+    console.error('Get leave events error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// User: Get own approval delegation
+router.get('/delegation', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user?._id, 'leaveDelegation')
+      .populate('leaveDelegation.delegate', 'name email');
+
+    return res.json({ success: true, data: user?.leaveDelegation?.delegate ? user.leaveDelegation : null });
+  } catch (error) {
+    console.error('Get leave delegation error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// User: Let someone else decide leave requests for you between two dates
+router.put('/delegation', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    const { delegate, from, until } = req.body;
+
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!delegate || !mongoose.Types.ObjectId.isValid(String(delegate))) {
+      return res.status(400).json({ success: false, message: 'A valid delegate is required' });
+    }
+
+    if (user._id.equals(String(delegate))) {
+      return res.status(400).json({ success: false, message: 'You cannot delegate to yourself' });
+    }
+
+    const fromDate = from === undefined ? new Date() : new Date(from);
+    const untilDate = new Date(until);
+    if (isNaN(fromDate.getTime()) || isNaN(untilDate.getTime()) || untilDate <= fromDate) {
+      return res.status(400).json({ success: false, message: 'Valid from and until dates are required, until after from' });
+    }
+
+    if (!(await User.exists({ _id: delegate, isActive: true }))) {
+      return res.status(404).json({ success: false, message: 'Delegate not found' });
+    }
+
+    const updated = await User.findByIdAndUpdate(
+      user._id,
+      { leaveDelegation: { delegate, from: fromDate, until: untilDate } },
+      { new: true }
+    ).populate('leaveDelegation.delegate', 'name email');
+
+    return res.json({ success: true, data: updated?.leaveDelegation });
+  } catch (error) {
+    console.error('Update leave delegation error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// User: End an approval delegation early
+router.delete('/delegation', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    await User.updateOne({ _id: req.user?._id }, { $unset: { leaveDelegation: 1 } });
+
+    return res.json({ success: true, message: 'Delegation removed' });
+  } catch (error) {
+    console.error('Delete leave delegation error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Approver: Approve or reject the current step of a leave request. Approving the
+// last step approves the leave; rejecting at any step rejects it.
+router.put('/:id', protect, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
-    const admin = req.user;
+    const { status, comment } = req.body;
+    const approver = req.user;
 
-    if (!admin) {
+    if (!approver) {
       return res.status(401).json({ success: false, message: 'User not authenticated' });
     }
 
@@ -154,30 +503,320 @@ router.put('/:id', protect, authorize('admin'), async (req: AuthRequest, res: Re
       });
     }
 
-    const leave = await Leave.findByIdAndUpdate(
-      id,
-      { 
-        status,
-        approvedBy: admin._id 
-      },
-      { new: true }
-    )
-      .populate('user', 'name email')
-      .populate('approvedBy', 'name email');
+    const invalidComment = commentError(comment);
+    if (invalidComment) {
+      return res.status(400).json({ success: false, message: invalidComment });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave ID format' });
+    }
+
+    const leave = await Leave.findById(id);
 
     if (!leave) {
       return res.status(404).json({ success: false, message: 'Leave request not found' });
     }
 
-    return res.json({ success: true, data: leave });
+    if (leave.status !== 'pending') {
+      return res.status(400).json({ 
+        success: false, 
+        message: `Leave request is already ${leave.status}` 
+      });
+    }
+
+    const acting = await actingApprover(req, leave);
+    if (!acting) {
+      return res.status(403).json({ 
+        success: false, 
+        message: 'You are not the approver for the current step of this request' 
+      });
+    }
+
+    // Requests from before approval chains are decided in one admin step
+    if (leave.approvals.length === 0) {
+      leave.approvals.push({ role: 'admin' });
+      leave.currentStep = 0;
+    }
+
+    const step = leave.currentStep;
+    const approval = leave.approvals[step];
+    approval.decision = status;
+    approval.decidedBy = approver._id;
+    approval.onBehalfOf = acting.onBehalfOf;
+    approval.comment = comment;
+    approval.decidedAt = new Date();
+
+    if (status === 'rejected' || step === leave.approvals.length - 1) {
+      leave.status = status;
+      leave.approvedBy = approver._id;
+
+      // Open tasks due while the requester is away, for the approver to hand over
+      if (status === 'approved') {
+        await buildHandover(leave);
+      }
+    } else {
+      leave.currentStep = step + 1;
+    }
+
+    leave.history.push({
+      action: status,
+      from: 'pending',
+      to: leave.status,
+      step,
+      by: approver._id,
+      onBehalfOf: acting.onBehalfOf,
+      comment
+    });
+
+    await leave.save();
+
+    // Approving never fails on coverage; the approver is told who else is out
+    const warnings = status === 'approved' ? await coverageWarnings(leave) : [];
+
+    await populateLeave(leave);
+
+    // The requester hears about the outcome, not about each intermediate step;
+    // the next step's approver is asked like for a new request
+    if (leave.status !== 'pending') {
+      await emitLeaveEvent(leave.status === 'approved' ? 'leaveApproved' : 'leaveRejected', requesterRoom(leave), leave);
+    } else {
+      for (const room of approverRooms(leave)) {
+      await emitLeaveEvent('leaveRequested', room, leave);
+    }
+    }
+
+    return res.json({ success: true, data: leave, coverageWarnings: warnings });
   } catch (error) {
+    if (error instanceof mongoose.Error.VersionError) {
+      return res.status(409).json({ success: false, message: 'Leave request was changed by someone else, please reload' });
+    }
     console.error('Update leave status error:', error);
     return res.status(500).json({ success: false, message: 'Server error' });
   }
 });
 
+// Approver: Preview the staffing impact of approving a pending request
+router.get('/:id/coverage', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave ID format' });
+    }
+
+    const leave = await Leave.findById(id);
+
+    if (!leave) {
+      return res.status(404).json({ success: false, message: 'Leave request not found' });
+    }
+
+    if (!hasPermission(req, 'leave:read-all') && !(leave.status === 'pending' && await actingApprover(req, leave))) {
+      return res.status(403).json({ success: false, message: 'Not authorized to view coverage for this request' });
+    }
+
+    return res.json({ success: true, data: await coverageWarnings(leave) });
+  } catch (error) {
+    console.error('Get leave coverage error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Get the handover report of an approved leave and the teammates who can take tasks over
+router.get('/:id/handover', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave ID format' });
+    }
+
+    const leave = await Leave.findById(id);
+
+    if (!leave || !canSeeHandover(req, leave)) {
+      return res.status(404).json({ success: false, message: 'Leave request not found' });
+    }
+
+    const candidates = await handoverCandidates(leave);
+    await leave.populate([
+      { path: 'handover.task', select: 'title status priority dueDate assignedTo' },
+      { path: 'handover.reassignedTo', select: 'name email' },
+      { path: 'handover.reassignedBy', select: 'name email' }
+    ]);
+
+    return res.json({ success: true, data: { handover: leave.handover, candidates } });
+  } catch (error) {
+    console.error('Get leave handover error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Approver: Reassign handover tasks to teammates. Body is { assignee } for every
+// task not handed over yet, or { assignments: [{ task, assignee }] }.
+router.post('/:id/handover', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { assignee, assignments } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave ID format' });
+    }
+
+    const leave = await Leave.findById(id);
+
+    if (!leave || !canSeeHandover(req, leave)) {
+      return res.status(404).json({ success: false, message: 'Leave request not found' });
+    }
+
+    if (!canReassignHandover(req, leave)) {
+      return res.status(403).json({ success: false, message: 'Not authorized to hand over these tasks' });
+    }
+
+    if (leave.status !== 'approved') {
+      return res.status(400).json({ success: false, message: 'Only approved leave has a handover' });
+    }
+
+    if (!Array.isArray(assignments) && !assignee) {
+      return res.status(400).json({ success: false, message: 'Provide an assignee or a list of assignments' });
+    }
+
+    const requested: { task: string; assignee: string }[] = Array.isArray(assignments)
+      ? assignments.map((assignment: any) => ({ task: String(assignment?.task), assignee: String(assignment?.assignee) }))
+      : leave.handover
+        .filter(item => !item.reassignedTo)
+        .map(item => ({ task: item.task.toString(), assignee: String(assignee) }));
+
+    // Tasks only go to teammates from the same team
+    const candidates = await handoverCandidates(leave);
+    const candidateIds = new Set(candidates.map(candidate => candidate._id.toString()));
+    const outsider = requested.find(assignment => !candidateIds.has(assignment.assignee));
+    if (outsider) {
+      return res.status(400).json({ success: false, message: 'Tasks can only be handed to active teammates of the requester' });
+    }
+
+    const reassigned: string[] = [];
+    const skipped: { task: string; reason: string }[] = [];
+
+    for (const assignment of requested) {
+      const item = leave.handover.find(entry => entry.task.toString() === assignment.task);
+      if (!item) {
+        skipped.push({ task: assignment.task, reason: 'Not part of this handover' });
+        continue;
+      }
+
+      // The task may have been edited since approval
+      const task = await Task.findById(item.task);
+      if (!task || !task.assignedTo.some(assignedUser => assignedUser.equals(leave.user._id))) {
+        skipped.push({ task: assignment.task, reason: 'No longer assigned to the requester' });
+        continue;
+      }
+
+      const toUserId = new mongoose.Types.ObjectId(assignment.assignee);
+      const blocker = await handoverBlocker(task, toUserId);
+      if (blocker) {
+        skipped.push({ task: assignment.task, reason: blocker });
+        continue;
+      }
+
+      try {
+        await reassignTask(task, leave.user._id, toUserId, user._id);
+      } catch (reassignError) {
+        console.error('Handover reassign error:', reassignError);
+        skipped.push({ task: assignment.task, reason: 'Could not be reassigned' });
+        continue;
+      }
+
+      // Recorded per task, so the report matches whatever was reassigned before a failure
+      await Leave.updateOne(
+        { _id: leave._id, 'handover.task': item.task },
+        { $set: {
+          'handover.$.reassignedTo': toUserId,
+          'handover.$.reassignedBy': user._id,
+          'handover.$.reassignedAt': new Date()
+        } }
+      );
+      reassigned.push(assignment.task);
+    }
+
+    const updated = await Leave.findById(leave._id);
+    await populateLeave(updated!);
+
+    return res.json({ success: true, data: { handover: updated!.handover, reassigned, skipped } });
+  } catch (error) {
+    console.error('Leave handover error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// User: Withdraw a pending request, or cancel approved leave that has not started
+router.post('/:id/cancel', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { comment } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const invalidComment = commentError(comment);
+    if (invalidComment) {
+      return res.status(400).json({ success: false, message: invalidComment });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave ID format' });
+    }
+
+    const leave = await Leave.findOne({ _id: id, user: user._id });
+
+    if (!leave) {
+      return res.status(404).json({ success: false, message: 'Leave request not found' });
+    }
+
+    const from = leave.status;
+    if (from === 'pending') {
+      leave.status = 'withdrawn';
+    } else if (from === 'approved' && leave.startDate > startOfDay(new Date())) {
+      leave.status = 'cancelled';
+    } else {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Only pending requests or approved leave that has not started can be cancelled' 
+      });
+    }
+
+    leave.history.push({
+      action: leave.status === 'withdrawn' ? 'withdrawn' : 'cancelled',
+      from,
+      to: leave.status,
+      by: user._id,
+      comment
+    });
+
+    await leave.save();
+    await populateLeave(leave);
+
+    // Sent for withdrawals too; the payload status tells them apart
+    await emitLeaveEvent('leaveCancelled', requesterRoom(leave), leave);
+
+    return res.json({ success: true, data: leave });
+  } catch (error) {
+    if (error instanceof mongoose.Error.VersionError) {
+      return res.status(409).json({ success: false, message: 'Leave request was changed by someone else, please reload' });
+    }
+    console.error('Cancel leave error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
 // Admin: Get leave statistics by user
-router.get('/stats/:userId', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.get('/stats/:userId', protect, requirePermission('leave:read-all'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
@@ -191,13 +830,14 @@ router.get('/stats/:userId', protect, authorize('admin'), async (req: Request, r
     const monthlyStats: Record<string, number> = {};
     const yearlyStats: Record<string, number> = {};
 
-    leaves.forEach(leave => {
-      const startMonth = new Date(leave.startDate).toLocaleString('default', { month: 'long', year: 'numeric' });
-      const startYear = new Date(leave.startDate).getFullYear().toString();
-      
-      // Calculate number of days for this leave
-      const diffTime = Math.abs(new Date(leave.endDate).getTime() - new Date(leave.startDate).getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1; // +1 to include both start and end dates
+    // Working days of each leave
+    const calendarFor = calendarCache();
+    const days = await Promise.all(leaves.map(leave => chargedDays(leave, calendarFor)));
+
+    leaves.forEach((leave, index) => {
+      const startMonth = new Date(leave.startDate).toLocaleString('default', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+      const startYear = new Date(leave.startDate).getUTCFullYear().toString();
+      const diffDays = days[index];
 
       // Monthly stats
       monthlyStats[startMonth] = (monthlyStats[startMonth] || 0) + diffDays;
@@ -211,10 +851,7 @@ router.get('/stats/:userId', protect, authorize('admin'), async (req: Request, r
       data: {
         monthly: monthlyStats,
         yearly: yearlyStats,
-        total: leaves.reduce((sum, leave) => {
-          const diffTime = Math.abs(new Date(leave.endDate).getTime() - new Date(leave.startDate).getTime());
-          return sum + Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-        }, 0)
+        total: days.reduce((sum, leaveDays) => sum + leaveDays, 0)
       } 
     });
   } catch (error) {
@@ -224,15 +861,19 @@ router.get('/stats/:userId', protect, authorize('admin'), async (req: Request, r
 });
 
 // Admin: Get overall leave statistics
-router.get('/stats', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.get('/stats', protect, requirePermission('leave:read-all'), async (req: Request, res: Response) => {
   try {
     const allLeaves = await Leave.find({ status: 'approved' })
       .populate('user', 'name email');
 
     // Group by user
     const userStats: Record<string, any> = {};
+
+    // Working days of each leave, on its user's calendar
+    const calendarFor = calendarCache();
+    const days = await Promise.all(allLeaves.map(leave => chargedDays(leave, calendarFor)));
     
-    allLeaves.forEach(leave => {
+    allLeaves.forEach((leave, index) => {
       const userId = leave.user._id.toString();
       if (!userStats[userId]) {
         userStats[userId] = {
@@ -242,14 +883,12 @@ router.get('/stats', protect, authorize('admin'), async (req: Request, res: Resp
         };
       }
 
-      // Calculate days for this leave
-      const diffTime = Math.abs(new Date(leave.endDate).getTime() - new Date(leave.startDate).getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
+      const diffDays = days[index];
 
       userStats[userId].totalLeaves += diffDays;
       
       // Monthly breakdown
-      const month = new Date(leave.startDate).toLocaleString('default', { month: 'long', year: 'numeric' });
+      const month = new Date(leave.startDate).toLocaleString('default', { month: 'long', year: 'numeric', timeZone: 'UTC' });
       userStats[userId].monthlyBreakdown[month] = (userStats[userId].monthlyBreakdown[month] || 0) + diffDays;
     });
 
@@ -258,10 +897,7 @@ router.get('/stats', protect, authorize('admin'), async (req: Request, res: Resp
       data: {
         userStats,
         totalApprovedLeaves: allLeaves.length,
-        totalLeaveDays: allLeaves.reduce((sum, leave) => {
-          const diffTime = Math.abs(new Date(leave.endDate).getTime() - new Date(leave.startDate).getTime());
-          return sum + Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-        }, 0)
+        totalLeaveDays: days.reduce((sum, leaveDays) => sum + leaveDays, 0)
       } 
     });
   } catch (error) {
@@ -270,4 +906,43 @@ router.get('/stats', protect, authorize('admin'), async (req: Request, res: Resp
   }
 });
 
+// Get one leave request with its approvals and history: its requester,
+// its approvers and delegates, and leave:read-all
+router.get('/:id', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid leave ID format' });
+    }
+
+    const leave = await Leave.findById(id);
+
+    if (!leave) {
+      return res.status(404).json({ success: false, message: 'Leave request not found' });
+    }
+
+    const involved = leave.user.equals(user._id)
+      || hasPermission(req, 'leave:read-all')
+      || leave.approvals.some(approval => approval.approver?.equals(user._id) || approval.decidedBy?.equals(user._id))
+      || (leave.status === 'pending' && await actingApprover(req, leave));
+
+    if (!involved) {
+      return res.status(404).json({ success: false, message: 'Leave request not found' });
+    }
+
+    await populateLeave(leave);
+
+    return res.json({ success: true, data: leave });
+  } catch (error) {
+    console.error('Get leave error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
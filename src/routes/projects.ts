@@ -1,17 +1,28 @@
 // server/src/routes/projects.ts
-import express, { Request, Response } from 'express';
-import Project from '../models/Project';
+import express, { Response } from 'express';
+import Project, { IProject, ProjectRole } from '../models/Project';
+import Task from '../models/Task';
+import Label from '../models/Label';
+import User from '../models/User';
 import { protect } from '../middleware/auth';
-import { authorize } from '../middleware/authorize';
+import { requirePermission, hasPermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
 import { io } from '../server';
 import mongoose from 'mongoose';
+import { DEFAULT_WORKFLOW, validateWorkflow, workflowFor } from '../utils/workflow';
+import { projectRoleOf, roleAtLeast, isProjectRole } from '../utils/projectAccess';
 
 const router = express.Router();
 
-// Get all projects
-router.get('/', protect, async (req: Request, res: Response) => {
+// project:manage holders act as owners of every project
+const canActOnProject = (req: AuthRequest, project: IProject, minimum: ProjectRole) =>
+  hasPermission(req, 'project:manage') || roleAtLeast(projectRoleOf(project, req.user!._id), minimum);
+
+// Get projects the caller belongs to (every project for project:manage)
+router.get('/', protect, async (req: AuthRequest, res: Response) => {
   try {
-    const projects = await Project.find().sort({ createdAt: -1 });
+    const filter = hasPermission(req, 'project:manage') ? {} : { 'members.user': req.user!._id };
+    const projects = await Project.find(filter).sort({ createdAt: -1 });
     return res.json({ projects });
   } catch (error) {
     console.error('Get projects error:', error);
@@ -19,8 +30,8 @@ router.get('/', protect, async (req: Request, res: Response) => {
   }
 });
 
-// Get single project
-router.get('/:id', protect, async (req: Request, res: Response) => {
+// Get single project (members only)
+router.get('/:id', protect, async (req: AuthRequest, res: Response) => {
   try {
     const projectId = req.params.id;
 
@@ -34,17 +45,74 @@ router.get('/:id', protect, async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Project not found' });
     }
 
-    return res.json({ project });
+    if (!canActOnProject(req, project, 'viewer')) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    return res.json({ project, workflow: workflowFor(project) });
   } catch (error) {
     console.error('Get project error:', error);
     return res.status(500).json({ message: 'Server error' });
   }
 });
 
-// Create project (admin only)
-router.post('/', protect, authorize('admin'), async (req: Request, res: Response) => {
+// Get the task dependency graph for a project
+// Edges point from blocker to blocked task; tasks from other projects are marked external
+router.get('/:id/dependencies', protect, async (req: AuthRequest, res: Response) => {
   try {
-    const { name, description } = req.body;
+    const projectId = req.params.id;
+
+    if (!mongoose.Types.ObjectId.isValid(projectId)) {
+      return res.status(400).json({ message: 'Invalid project ID format' });
+    }
+
+    const project = await Project.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    if (!canActOnProject(req, project, 'viewer')) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const tasks = await Task.find({ projectId }, 'title status projectId blockedBy');
+    const taskIds = tasks.map(task => task._id);
+
+    // Cross-project neighbours: blockers outside the project and tasks outside it that we block
+    const internal = new Set(taskIds.map(id => id.toString()));
+    const externalBlockerIds = tasks.flatMap(task => task.blockedBy).filter(id => !internal.has(id.toString()));
+    const externalTasks = await Task.find(
+      { $or: [{ _id: { $in: externalBlockerIds } }, { blockedBy: { $in: taskIds }, projectId: { $ne: projectId } }] },
+      'title status projectId blockedBy'
+    );
+
+    const nodes = [...tasks, ...externalTasks].map(task => ({
+      id: task._id.toString(),
+      title: task.title,
+      status: task.status,
+      projectId: task.projectId?.toString() || null,
+      external: !internal.has(task._id.toString())
+    }));
+
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edges = [...tasks, ...externalTasks].flatMap(task =>
+      task.blockedBy
+        .filter(blockerId => nodeIds.has(blockerId.toString()))
+        .filter(blockerId => internal.has(blockerId.toString()) || internal.has(task._id.toString()))
+        .map(blockerId => ({ from: blockerId.toString(), to: task._id.toString() }))
+    );
+
+    return res.json({ nodes, edges });
+  } catch (error) {
+    console.error('Get project dependencies error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create project (project:manage)
+router.post('/', protect, requirePermission('project:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, description, workflow } = req.body;
 
     // Validate required fields
     if (!name || name.trim().length === 0) {
@@ -57,9 +125,19 @@ router.post('/', protect, authorize('admin'), async (req: Request, res: Response
       return res.status(400).json({ message: 'A project with this name already exists' });
     }
 
+    // Validate custom workflow if provided (otherwise the default one applies)
+    if (workflow !== undefined) {
+      const workflowError = validateWorkflow(workflow);
+      if (workflowError) {
+        return res.status(400).json({ message: workflowError });
+      }
+    }
+
     const project = new Project({
       name: name.trim(),
-      description: description ? description.trim() : undefined
+      description: description ? description.trim() : undefined,
+      workflow,
+      members: [{ user: req.user!._id, role: 'owner' }]
     });
 
     await project.save();
@@ -75,11 +153,11 @@ router.post('/', protect, authorize('admin'), async (req: Request, res: Response
   }
 });
 
-// Update project (admin only)
-router.put('/:id', protect, authorize('admin'), async (req: Request, res: Response) => {
+// Update project (project:manage or project maintainers)
+router.put('/:id', protect, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, description } = req.body;
+    const { name, description, workflow } = req.body;
 
     // Validate ID
     if (!id || id === 'undefined' || id === 'null') {
@@ -100,6 +178,10 @@ router.put('/:id', protect, authorize('admin'), async (req: Request, res: Respon
       return res.status(404).json({ message: 'Project not found' });
     }
 
+    if (!canActOnProject(req, project, 'maintainer')) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
     // Check if name already exists (if changing)
     if (name && name.trim() !== project.name) {
       const existingProject = await Project.findOne({ 
@@ -111,9 +193,28 @@ router.put('/:id', protect, authorize('admin'), async (req: Request, res: Respon
       }
     }
 
+    // Validate workflow changes; columns still holding tasks cannot be removed
+    // (null resets the project to the default workflow)
+    if (workflow !== undefined) {
+      const nextWorkflow = workflow === null ? DEFAULT_WORKFLOW : workflow;
+      const workflowError = validateWorkflow(nextWorkflow);
+      if (workflowError) {
+        return res.status(400).json({ message: workflowError });
+      }
+
+      const keys = nextWorkflow.columns.map((column: any) => column.key.trim());
+      const strandedTasks = await Task.countDocuments({ projectId: id, status: { $nin: keys } });
+      if (strandedTasks > 0) {
+        return res.status(409).json({
+          message: `${strandedTasks} task(s) are in columns that would be removed. Move them first.`
+        });
+      }
+    }
+
     // Update project fields if provided
     if (name !== undefined) project.name = name.trim();
     if (description !== undefined) project.description = description.trim();
+    if (workflow !== undefined) project.workflow = workflow || undefined;
 
     await project.save();
 
@@ -127,8 +228,8 @@ router.put('/:id', protect, authorize('admin'), async (req: Request, res: Respon
   }
 });
 
-// Delete project (admin only)
-router.delete('/:id', protect, authorize('admin'), async (req: Request, res: Response) => {
+// Delete project (project:manage or the project owner)
+router.delete('/:id', protect, async (req: AuthRequest, res: Response) => {
   try {
     const projectId = req.params.id;
 
@@ -142,9 +243,19 @@ router.delete('/:id', protect, authorize('admin'), async (req: Request, res: Res
       return res.status(404).json({ message: 'Project not found' });
     }
 
+    if (!canActOnProject(req, project, 'owner')) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
     // Remove the project
     await Project.findByIdAndDelete(projectId);
 
+    // Project labels go with it; detach them from any task first
+    const projectLabels = await Label.find({ project: projectId }, '_id');
+    const labelIds = projectLabels.map(label => label._id);
+    await Task.updateMany({ labels: { $in: labelIds } }, { $pull: { labels: { $in: labelIds } } });
+    await Label.deleteMany({ _id: { $in: labelIds } });
+
     // Also remove project reference from all tasks
     // This is optional depending on your requirements
     // await Task.updateMany(
@@ -162,4 +273,132 @@ router.delete('/:id', protect, authorize('admin'), async (req: Request, res: Res
   }
 });
 
+// Load :id for member management; sends the error response itself and returns null on failure
+const loadProjectForMembers = async (req: AuthRequest, res: Response, minimum: ProjectRole) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400).json({ message: 'Invalid project ID format' });
+    return null;
+  }
+
+  const project = await Project.findById(req.params.id);
+  if (!project) {
+    res.status(404).json({ message: 'Project not found' });
+    return null;
+  }
+
+  if (!canActOnProject(req, project, minimum)) {
+    res.status(403).json({ message: 'Access denied' });
+    return null;
+  }
+
+  return project;
+};
+
+// A project must always keep at least one owner
+const ownerCount = (project: IProject) => project.members.filter(member => member.role === 'owner').length;
+
+// Get project members
+router.get('/:id/members', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const project = await loadProjectForMembers(req, res, 'viewer');
+    if (!project) return;
+
+    await project.populate('members.user', 'name email');
+
+    return res.json({ members: project.members });
+  } catch (error) {
+    console.error('Get project members error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Add a project member (project owner)
+router.post('/:id/members', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const project = await loadProjectForMembers(req, res, 'owner');
+    if (!project) return;
+
+    const { userId, role = 'member' } = req.body;
+
+    if (!isProjectRole(role)) {
+      return res.status(400).json({ message: 'Role must be owner, maintainer, member or viewer' });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(userId) || !(await User.exists({ _id: userId }))) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (projectRoleOf(project, userId)) {
+      return res.status(400).json({ message: 'User is already a member of this project' });
+    }
+
+    project.members.push({ user: new mongoose.Types.ObjectId(userId), role });
+    await project.save();
+    await project.populate('members.user', 'name email');
+
+    return res.status(201).json({ members: project.members });
+  } catch (error) {
+    console.error('Add project member error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Change a member's project role (project owner)
+router.put('/:id/members/:userId', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const project = await loadProjectForMembers(req, res, 'owner');
+    if (!project) return;
+
+    const { role } = req.body;
+
+    if (!isProjectRole(role)) {
+      return res.status(400).json({ message: 'Role must be owner, maintainer, member or viewer' });
+    }
+
+    const member = project.members.find(m => m.user.toString() === req.params.userId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    if (member.role === 'owner' && role !== 'owner' && ownerCount(project) === 1) {
+      return res.status(400).json({ message: 'A project must have at least one owner' });
+    }
+
+    member.role = role;
+    await project.save();
+    await project.populate('members.user', 'name email');
+
+    return res.json({ members: project.members });
+  } catch (error) {
+    console.error('Update project member error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Remove a project member (project owner)
+router.delete('/:id/members/:userId', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const project = await loadProjectForMembers(req, res, 'owner');
+    if (!project) return;
+
+    const member = project.members.find(m => m.user.toString() === req.params.userId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    if (member.role === 'owner' && ownerCount(project) === 1) {
+      return res.status(400).json({ message: 'A project must have at least one owner' });
+    }
+
+    project.members = project.members.filter(m => m.user.toString() !== req.params.userId);
+    await project.save();
+    await project.populate('members.user', 'name email');
+
+    return res.json({ members: project.members });
+  } catch (error) {
+    console.error('Remove project member error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
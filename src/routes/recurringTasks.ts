@@ -0,0 +1,181 @@
+// server/src/routes/recurringTasks.ts
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import RecurringTask from '../models/RecurringTask';
+import User from '../models/User';
+import Project from '../models/Project';
+import { protect } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
+import { parseCron, nextOccurrence, CronParseError } from '../utils/cron';
+
+const router = express.Router();
+
+// Returns an error message for invalid template fields, or null if they are valid
+const validateTemplate = async (body: any, partial: boolean): Promise<string | null> => {
+  const { title, description, assignedTo, projectId, schedule, dueOffsetDays, priority } = body;
+
+  if (!partial || title !== undefined) {
+    if (!title || String(title).trim().length === 0) return 'Title is required';
+  }
+  if (!partial || description !== undefined) {
+    if (!description || String(description).trim().length === 0) return 'Description is required';
+  }
+  if (priority !== undefined && !['low', 'medium', 'high'].includes(priority)) {
+    return 'Priority must be low, medium or high';
+  }
+
+  if (!partial || assignedTo !== undefined) {
+    if (!Array.isArray(assignedTo) || assignedTo.length === 0
+      || !assignedTo.every(id => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+      return 'AssignedTo is required and must be an array of user IDs';
+    }
+    const validUsers = await User.find({ _id: { $in: assignedTo } });
+    if (validUsers.length !== assignedTo.length) {
+      return 'One or more assigned users do not exist';
+    }
+  }
+
+  if (projectId) {
+    if (!mongoose.Types.ObjectId.isValid(projectId) || !(await Project.exists({ _id: projectId }))) {
+      return 'Project not found';
+    }
+  }
+
+  if (!partial || schedule !== undefined) {
+    try {
+      parseCron(String(schedule || ''));
+    } catch (err) {
+      if (err instanceof CronParseError) return `Invalid schedule: ${err.message}`;
+      throw err;
+    }
+  }
+
+  if (dueOffsetDays !== undefined && dueOffsetDays !== null
+    && (!Number.isInteger(dueOffsetDays) || dueOffsetDays < 0)) {
+    return 'dueOffsetDays must be a non-negative integer';
+  }
+
+  return null;
+};
+
+// Get all recurring task templates
+router.get('/', protect, requirePermission('recurring:manage'), async (req: Request, res: Response) => {
+  try {
+    const templates = await RecurringTask.find()
+      .populate('assignedTo', 'name email')
+      .populate('createdBy', 'name email')
+      .populate('projectId', 'name')
+      .sort({ createdAt: -1 });
+
+    return res.json({ templates });
+  } catch (error) {
+    console.error('Get recurring tasks error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create a recurring task template
+router.post('/', protect, requirePermission('recurring:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    const validationError = await validateTemplate(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const { title, description, priority, assignedTo, projectId, schedule, dueOffsetDays, isActive } = req.body;
+
+    const template = new RecurringTask({
+      title,
+      description,
+      priority,
+      assignedTo,
+      projectId: projectId || undefined,
+      schedule,
+      dueOffsetDays: dueOffsetDays ?? undefined,
+      isActive: isActive !== false,
+      createdBy: user._id,
+      nextRunAt: nextOccurrence(parseCron(schedule), new Date()) || undefined
+    });
+
+    await template.save();
+
+    return res.status(201).json({ template });
+  } catch (error) {
+    console.error('Create recurring task error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update a recurring task template
+router.put('/:id', protect, requirePermission('recurring:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid template ID format' });
+    }
+
+    const template = await RecurringTask.findById(id);
+    if (!template) {
+      return res.status(404).json({ message: 'Recurring task not found' });
+    }
+
+    const validationError = await validateTemplate(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const { title, description, priority, assignedTo, projectId, schedule, dueOffsetDays, isActive } = req.body;
+
+    if (title !== undefined) template.title = title;
+    if (description !== undefined) template.description = description;
+    if (priority !== undefined) template.priority = priority;
+    if (assignedTo !== undefined) template.assignedTo = assignedTo;
+    if (projectId !== undefined) template.projectId = projectId || undefined;
+    if (dueOffsetDays !== undefined) template.dueOffsetDays = dueOffsetDays ?? undefined;
+    if (schedule !== undefined) template.schedule = schedule;
+    if (isActive !== undefined) template.isActive = Boolean(isActive);
+
+    // Reschedule from now when the schedule changes or the template is re-enabled,
+    // so occurrences missed while paused are not generated
+    if (schedule !== undefined || isActive === true) {
+      template.nextRunAt = nextOccurrence(parseCron(template.schedule), new Date()) || undefined;
+    }
+
+    await template.save();
+
+    return res.json({ template });
+  } catch (error) {
+    console.error('Update recurring task error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete a recurring task template (tasks it already created are kept)
+router.delete('/:id', protect, requirePermission('recurring:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid template ID format' });
+    }
+
+    const template = await RecurringTask.findByIdAndDelete(id);
+    if (!template) {
+      return res.status(404).json({ message: 'Recurring task not found' });
+    }
+
+    return res.json({ message: 'Recurring task deleted successfully' });
+  } catch (error) {
+    console.error('Delete recurring task error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
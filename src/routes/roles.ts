@@ -0,0 +1,129 @@
+// server/src/routes/roles.ts
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Role from '../models/Role';
+import User from '../models/User';
+import { protect } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+import { PERMISSIONS, BASE_ROLE_PERMISSIONS, isPermission } from '../utils/permissions';
+
+const router = express.Router();
+
+// Get the permission catalogue and what the built-in account roles grant
+router.get('/permissions', protect, requirePermission('role:manage'), (req: Request, res: Response) => {
+  return res.json({ success: true, permissions: PERMISSIONS, baseRoles: BASE_ROLE_PERMISSIONS });
+});
+
+// Get all named roles
+router.get('/', protect, requirePermission('role:manage'), async (req: Request, res: Response) => {
+  try {
+    const roles = await Role.find({}).sort({ name: 1 });
+    return res.json({ success: true, roles });
+  } catch (error) {
+    console.error('Get roles error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Create a named role
+router.post('/', protect, requirePermission('role:manage'), async (req: Request, res: Response) => {
+  try {
+    const { name, description, permissions = [] } = req.body;
+
+    if (!name || String(name).trim().length === 0) {
+      return res.status(400).json({ success: false, message: 'Role name is required' });
+    }
+
+    if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+      return res.status(400).json({ success: false, message: 'Permissions must be from the permission catalogue' });
+    }
+
+    const existingRole = await Role.findOne({ name: String(name).trim() });
+    if (existingRole) {
+      return res.status(400).json({ success: false, message: 'A role with this name already exists' });
+    }
+
+    const role = new Role({
+      name: String(name).trim(),
+      description,
+      permissions: [...new Set(permissions)]
+    });
+
+    await role.save();
+
+    return res.status(201).json({ success: true, role });
+  } catch (error) {
+    console.error('Create role error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Update a named role
+router.put('/:id', protect, requirePermission('role:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, description, permissions } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid role ID format' });
+    }
+
+    const role = await Role.findById(id);
+    if (!role) {
+      return res.status(404).json({ success: false, message: 'Role not found' });
+    }
+
+    if (permissions !== undefined && (!Array.isArray(permissions) || !permissions.every(isPermission))) {
+      return res.status(400).json({ success: false, message: 'Permissions must be from the permission catalogue' });
+    }
+
+    if (name !== undefined) {
+      if (String(name).trim().length === 0) {
+        return res.status(400).json({ success: false, message: 'Role name is required' });
+      }
+      const existingRole = await Role.findOne({ name: String(name).trim(), _id: { $ne: id } });
+      if (existingRole) {
+        return res.status(400).json({ success: false, message: 'A role with this name already exists' });
+      }
+      role.name = String(name).trim();
+    }
+    if (description !== undefined) role.description = description;
+    if (permissions !== undefined) role.permissions = [...new Set<string>(permissions)];
+
+    await role.save();
+
+    return res.json({ success: true, role });
+  } catch (error) {
+    console.error('Update role error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Delete a named role and remove it from every user
+router.delete('/:id', protect, requirePermission('role:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid role ID format' });
+    }
+
+    const role = await Role.findByIdAndDelete(id);
+
+    if (!role) {
+      return res.status(404).json({ success: false, message: 'Role not found' });
+    }
+
+    await User.updateMany(
+      { roles: role._id },
+      { $pull: { roles: role._id } }
+    );
+
+    return res.json({ success: true, message: 'Role deleted successfully' });
+  } catch (error) {
+    console.error('Delete role error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,18 +1,55 @@
 // server/src/routes/tasks.ts
 import express, { Request, Response } from 'express';
-import Task from '../models/Task';
+import Task, { ITask } from '../models/Task';
 import { protect } from '../middleware/auth';
-import { authorize } from '../middleware/authorize';
+import { requirePermission, hasPermission } from '../middleware/requirePermission';
 import User from '../models/User';
-import Project from '../models/Project';
+import Project, { IProject } from '../models/Project';
+import Comment from '../models/Comment';
+import TaskActivity from '../models/TaskActivity';
+import Label from '../models/Label';
 import { AuthRequest } from '../types';
 import { io } from '../server';
 import mongoose from 'mongoose';
+import commentRoutes from './comments';
+import checklistRoutes from './checklist';
+import dependencyRoutes from './dependencies';
+import { DEFAULT_WORKFLOW, getWorkflow, workflowFor, initialStatus, hasStatus, canTransition, checkWipLimit, WipViolation } from '../utils/workflow';
+import { rankAtEnd, rankBetween, ensureColumnRanked, rebalanceColumn, MAX_RANK_LENGTH } from '../utils/rank';
+import { canAccessTask, canMoveTask, canEditTask, assigneeIds } from '../utils/taskAccess';
+import { hasProjectRole, memberProjectIds } from '../utils/projectAccess';
+import { buildTaskListQuery, encodeCursor, TaskQueryError } from '../utils/taskQuery';
+import { isGatedStatus, openBlockers } from '../utils/dependencies';
+import { validateTaskLabels, labelScope } from '../utils/labels';
+import { snapshotTask, recordTaskCreated, recordTaskUpdated, recordTaskDeleted } from '../utils/activity';
 
 const router = express.Router();
 
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id));
+
+// 409 body for a WIP limit that would be exceeded
+const wipError = (violation: WipViolation) => ({
+  message: `WIP limit for "${violation.column}" would be exceeded`,
+  error: violation
+});
+
+// 409 body for a status change refused because of open blockers
+const blockedError = (blockers: ITask[]) => ({
+  message: 'Task is blocked by unfinished tasks',
+  error: {
+    code: 'TASK_BLOCKED',
+    blockers: blockers.map(blocker => ({ id: blocker._id.toString(), title: blocker.title, status: blocker.status }))
+  }
+});
+
+// Nested task resources
+router.use('/:id/comments', commentRoutes);
+router.use('/:id/checklist', checklistRoutes);
+router.use('/:id/dependencies', dependencyRoutes);
+
 // Define the users route BEFORE the dynamic route
-router.get('/users', protect, authorize('admin'), async (req: AuthRequest, res: Response) => {
+router.get('/users', protect, requirePermission('user:read'), async (req: AuthRequest, res: Response) => {
   try {
     const users = await User.find({ isActive: true }, 'name email role');
     return res.json({ users });
@@ -22,7 +59,9 @@ router.get('/users', protect, authorize('admin'), async (req: AuthRequest, res:
   }
 });
 
-// Get all tasks (admin) or user's tasks (user)
+// Get all tasks (task:read-all) or user's tasks
+// Supports filters (status, priority, assignee, project, labels/labelMatch, dueFrom, dueTo, overdue),
+// text search (q), sort and cursor pagination (limit, cursor)
 router.get('/', protect, async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
@@ -30,24 +69,44 @@ router.get('/', protect, async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ message: 'User not authenticated' });
     }
 
-    let tasks;
-    if (user.role === 'admin') {
-      // Admin can see all tasks
-      tasks = await Task.find()
-        .populate('assignedTo', 'name email')
-        .populate('assignedBy', 'name email')
-        .populate('projectId', 'name')
-        .sort({ createdAt: -1 });
-    } else {
-      // User can see tasks assigned to them
-      tasks = await Task.find({ assignedTo: user._id })
-        .populate('assignedTo', 'name email')
-        .populate('assignedBy', 'name email')
-        .populate('projectId', 'name')
-        .sort({ createdAt: -1 });
-    }
-
-    return res.json({ tasks });
+    let listQuery;
+    try {
+      listQuery = await buildTaskListQuery(req.query);
+    } catch (err) {
+      if (err instanceof TaskQueryError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+
+    // Holders of task:read-all see all tasks, others the tasks assigned to them
+    // and those in projects they belong to
+    const visibility = { $or: [{ assignedTo: user._id }, { projectId: { $in: await memberProjectIds(user._id) } }] };
+    const filter = hasPermission(req, 'task:read-all')
+      ? listQuery.filter
+      : { $and: [visibility, ...(listQuery.filter.$and || [])] };
+
+    let query = Task.find(filter)
+      .populate('assignedTo', 'name email')
+      .populate('assignedBy', 'name email')
+      .populate('projectId', 'name')
+      .populate('labels', 'name color')
+      .sort(listQuery.sort);
+
+    // Fetch one extra to know whether another page exists
+    if (listQuery.limit) {
+      query = query.limit(listQuery.limit + 1);
+    }
+
+    const tasks = await query;
+
+    let nextCursor: string | null = null;
+    if (listQuery.limit && tasks.length > listQuery.limit) {
+      tasks.pop();
+      nextCursor = encodeCursor(tasks[tasks.length - 1], listQuery.sortField);
+    }
+
+    return res.json({ tasks, nextCursor });
   } catch (error) {
     console.error('Get tasks error:', error);
     return res.status(500).json({ message: 'Server error' });
@@ -55,7 +114,7 @@ router.get('/', protect, async (req: AuthRequest, res: Response) => {
 });
 
 // Get single task
-router.get('/:id', protect, async (req: Request, res: Response) => {
+router.get('/:id', protect, async (req: AuthRequest, res: Response) => {
   try {
     const taskId = req.params.id;
 
@@ -67,53 +126,86 @@ router.get('/:id', protect, async (req: Request, res: Response) => {
     const task = await Task.findById(taskId)
       .populate('assignedTo', 'name email')
       .populate('assignedBy', 'name email')
-      .populate('projectId', 'name');
+      .populate('projectId', 'name')
+      .populate('labels', 'name color');
 
     if (!task) {
       return res.status(404).json({ message: 'Task not found' });
     }
 
     // Check if user can access this task
-    const user = (req as AuthRequest).user;
+    const user = req.user;
     if (!user) {
       return res.status(401).json({ message: 'User not authenticated' });
     }
 
-    // Admin can access any task
-    if (user.role === 'admin') {
+    // Task readers, assignees and the creator can access the task
+    if (await canAccessTask(task, user, req.permissions)) {
       return res.json({ task });
     }
 
-    // User can access task if assigned to them
-    const assignedToIds = task.assignedTo.map(assignedUser => assignedUser._id.toString());
-    if (assignedToIds.includes(user._id.toString())) {
-      return res.json({ task });
+    return res.status(403).json({ message: 'Access denied' });
+  } catch (error) {
+    console.error('Get task error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get task activity history
+router.get('/:id/activity', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const taskId = req.params.id;
+    const user = req.user;
+
+    if (!mongoose.Types.ObjectId.isValid(taskId)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
     }
 
-    // User can access task if they created it
-    if (task.assignedBy.toString() === user._id.toString()) {
-      return res.json({ task });
+    if (!user) {
+      return res.status(401).json({ message: 'User not authenticated' });
     }
 
-    return res.status(403).json({ message: 'Access denied' });
+    // History of deleted tasks stays visible to users who can read all tasks
+    const task = await Task.findById(taskId);
+    if (!task && !hasPermission(req, 'task:read-all')) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (task && !(await canAccessTask(task, user, req.permissions))) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const activity = await TaskActivity.find({ task: taskId })
+      .populate('actor', 'name email')
+      .sort({ createdAt: 1 });
+
+    return res.json({ activity });
   } catch (error) {
-    console.error('Get task error:', error);
+    console.error('Get task activity error:', error);
     return res.status(500).json({ message: 'Server error' });
   }
 });
 
-// Create task (admin only)
-router.post('/', protect, authorize('admin'), async (req: AuthRequest, res: Response) => {
+// Create task (task:create, or maintainers of the target project)
+router.post('/', protect, async (req: AuthRequest, res: Response) => {
   try {
-    const { title, description, priority, assignedTo, dueDate, status, projectId } = req.body;
+    const {
+      title, description, priority, assignedTo, dueDate, status, projectId, labels = [],
+      overrideWipLimit
+    } = req.body;
     const user = req.user;
 
     if (!user) {
       return res.status(401).json({ message: 'User not authenticated' });
     }
 
+    if (!hasPermission(req, 'task:create')
+      && !(projectId && mongoose.Types.ObjectId.isValid(projectId) && await hasProjectRole(projectId, user._id, 'maintainer'))) {
+      return res.status(403).json({ message: 'Missing permission: task:create' });
+    }
+
     // Validate assignedTo is an array of valid ObjectIds
-    if (!Array.isArray(assignedTo) || assignedTo.length === 0) {
+    if (!isIdList(assignedTo) || assignedTo.length === 0) {
       return res.status(400).json({ message: 'AssignedTo is required and must be an array of user IDs' });
     }
 
@@ -124,34 +216,66 @@ router.post('/', protect, authorize('admin'), async (req: AuthRequest, res: Resp
     }
 
     // Validate projectId if provided
+    let workflow = DEFAULT_WORKFLOW;
+    let project: IProject | null = null;
     if (projectId) {
       if (!mongoose.Types.ObjectId.isValid(projectId)) {
         return res.status(400).json({ message: 'Invalid project ID format' });
       }
       
-      const project = await Project.findById(projectId);
+      project = await Project.findById(projectId);
       if (!project) {
         return res.status(404).json({ message: 'Project not found' });
       }
+      workflow = workflowFor(project);
+    }
+
+    const labelError = await validateTaskLabels(labels, projectId);
+    if (labelError) {
+      return res.status(400).json({ message: labelError });
+    }
+
+    // Status must be one of the workflow's columns (defaults to the first one)
+    if (status && !hasStatus(workflow, status)) {
+      return res.status(400).json({ message: `Invalid status "${status}" for this workflow` });
     }
 
     const task = new Task({
       title,
       description,
       priority,
-      status: status || 'todo',
+      status: status || initialStatus(workflow),
       assignedTo,
       assignedBy: user._id,
       dueDate,
-      projectId 
+      projectId,
+      labels,
+      rank: await rankAtEnd(projectId, status || initialStatus(workflow))
     });
 
+    // New tasks count against WIP limits like moved ones; task:override may override
+    const wipOverride = await checkWipLimit(workflow, project?._id, task.status, assignedTo, task._id);
+    if (wipOverride && !(overrideWipLimit === true && hasPermission(req, 'task:override'))) {
+      return res.status(409).json(wipError(wipOverride));
+    }
+
     await task.save();
+    await recordTaskCreated(task, user._id);
+
+    if (wipOverride) {
+      io.to('admin').emit('wipLimitExceeded', {
+        taskId: task._id.toString(),
+        projectId: project?._id.toString(),
+        overriddenBy: { id: user._id.toString(), name: user.name },
+        ...wipOverride
+      });
+    }
 
     // Populate the task before sending
     await task.populate('assignedTo', 'name email');
     await task.populate('assignedBy', 'name email');
     await task.populate('projectId', 'name');
+    await task.populate('labels', 'name color');
 
     // Emit task created event to assigned users
     task.assignedTo.forEach((userId: any) => {
@@ -172,7 +296,10 @@ router.post('/', protect, authorize('admin'), async (req: AuthRequest, res: Resp
 router.put('/:id', protect, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { title, description, status, priority, assignedTo, dueDate, projectId } = req.body;
+    const {
+      title, description, status, priority, assignedTo, dueDate, projectId, labels,
+      overrideWipLimit, overrideBlockers
+    } = req.body;
     const user = req.user;
 
     // Validate ID
@@ -198,38 +325,118 @@ router.put('/:id', protect, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: 'Task not found' });
     }
 
-    // Only admin or task creator can update (except for status changes by assigned users)
-    if (user.role !== 'admin' && task.assignedBy.toString() !== user._id.toString()) {
-      // Allow assigned users to update status only
-      if (req.body.status && Object.keys(req.body).length === 1) {
-        const assignedToIds = task.assignedTo.map(userId => userId.toString());
-        if (!assignedToIds.includes(user._id.toString())) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
-      } else {
+    // Only task editors, the creator or project maintainers can update; assignees
+    // and project members may change the status only
+    if (!(await canEditTask(task, user, req.permissions))) {
+      const statusOnly = req.body.status && Object.keys(req.body).length === 1;
+      if (!statusOnly || !(await canMoveTask(task, user, req.permissions))) {
         return res.status(403).json({ message: 'Access denied' });
       }
     }
 
+    if (assignedTo !== undefined) {
+      if (!isIdList(assignedTo)) {
+        return res.status(400).json({ message: 'AssignedTo must be an array of user IDs' });
+      }
+
+      const validUsers = await User.find({ _id: { $in: assignedTo } });
+      if (validUsers.length !== assignedTo.length) {
+        return res.status(400).json({ message: 'One or more assigned users do not exist' });
+      }
+    }
+
+    // Moving a task into another project needs the same rights there
+    if (projectId && projectId !== task.projectId?.toString() && !hasPermission(req, 'task:update')
+      && !(mongoose.Types.ObjectId.isValid(projectId) && await hasProjectRole(projectId, user._id, 'maintainer'))) {
+      return res.status(403).json({ message: 'Access denied to the target project' });
+    }
+
+    // Taking a task out of its project leaves no project roles governing it, so it
+    // needs the same right as creating a task without a project
+    if (projectId !== undefined && !projectId && task.projectId
+      && !hasPermission(req, 'task:update') && !hasPermission(req, 'task:create')) {
+      return res.status(403).json({ message: 'Missing permission to remove the task from its project' });
+    }
+
     // Validate projectId if provided
+    let targetProject = task.projectId ? await Project.findById(task.projectId) : null;
     if (projectId !== undefined) {
       if (projectId) {
         if (!mongoose.Types.ObjectId.isValid(projectId)) {
           return res.status(400).json({ message: 'Invalid project ID format' });
         }
         
-        const project = await Project.findById(projectId);
-        if (!project) {
+        targetProject = await Project.findById(projectId);
+        if (!targetProject) {
           return res.status(404).json({ message: 'Project not found' });
         }
       } else {
-        // If projectId is explicitly set to null/undefined, clear it
-        task.projectId = undefined;
+        // If projectId is explicitly set to null/undefined, it is cleared below
+        targetProject = null;
+      }
+    }
+
+    // Validate status against the (possibly new) project's workflow
+    const workflow = workflowFor(targetProject);
+    const projectChanged = (targetProject?._id.toString() || null) !== (task.projectId?.toString() || null);
+    const nextStatus = status !== undefined ? status : task.status;
+
+    if (!hasStatus(workflow, nextStatus)) {
+      return res.status(400).json({
+        message: status !== undefined
+          ? `Invalid status "${status}" for this workflow`
+          : `Current status "${task.status}" does not exist in the target project's workflow; provide a status`
+      });
+    }
+
+    // Transitions only apply when moving within the same workflow
+    if (!projectChanged && !canTransition(workflow, task.status, nextStatus)) {
+      return res.status(400).json({
+        message: `Cannot move task from "${task.status}" to "${nextStatus}"`
+      });
+    }
+
+    // Labels must be global or belong to the (possibly new) project
+    if (labels !== undefined) {
+      const labelError = await validateTaskLabels(labels, targetProject?._id);
+      if (labelError) {
+        return res.status(400).json({ message: labelError });
+      }
+    }
+
+    // Blocked tasks cannot be started or finished while blockers are open; task:override forces it
+    if (nextStatus !== task.status && isGatedStatus(workflow, nextStatus)
+      && !(overrideBlockers === true && hasPermission(req, 'task:override'))) {
+      const blockers = await openBlockers(task);
+      if (blockers.length > 0) {
+        return res.status(409).json(blockedError(blockers));
+      }
+    }
+
+    // Enforce WIP limits when the task enters a column, or gains assignees within
+    // one; task:override may override
+    let wipOverride: WipViolation | null = null;
+    const entersColumn = projectChanged || nextStatus !== task.status;
+    const addedAssignees = assignedTo === undefined
+      ? []
+      : assignedTo.filter((userId: string) => !assigneeIds(task).includes(userId));
+    if (entersColumn || addedAssignees.length > 0) {
+      const violation = entersColumn
+        ? await checkWipLimit(workflow, targetProject?._id, nextStatus, assignedTo ?? assigneeIds(task), task._id)
+        : await checkWipLimit(workflow, targetProject?._id, nextStatus, addedAssignees, task._id, { assigneesOnly: true });
+
+      if (violation) {
+        if (!(overrideWipLimit === true && hasPermission(req, 'task:override'))) {
+          return res.status(409).json(wipError(violation));
+        }
+
+        wipOverride = violation;
       }
     }
 
     // Store original assignedTo for socket emission
     const originalAssignedTo = [...task.assignedTo];
+    const before = snapshotTask(task);
 
     // Update task fields if provided
     if (title !== undefined) task.title = title;
@@ -238,22 +445,40 @@ router.put('/:id', protect, async (req: AuthRequest, res: Response) => {
     if (priority !== undefined) task.priority = priority;
     if (dueDate !== undefined) task.dueDate = dueDate;
     if (projectId !== undefined) task.projectId = projectId ? new mongoose.Types.ObjectId(projectId) : undefined;
+    if (labels !== undefined) {
+      task.labels = labels;
+    } else if (projectChanged && task.labels.length > 0) {
+      // Drop labels that belonged to the old project
+      const kept = await Label.find({ _id: { $in: task.labels }, ...labelScope(task.projectId) }, '_id');
+      task.labels = kept.map(label => label._id);
+    }
+
+    // A task entering a new column goes to the bottom of it
+    if (projectChanged || nextStatus !== before.status) {
+      task.rank = await rankAtEnd(task.projectId, task.status);
+    }
     
     if (assignedTo !== undefined) {
-      // Validate assigned users exist
-      const validUsers = await User.find({ _id: { $in: assignedTo } });
-      if (validUsers.length !== assignedTo.length) {
-        return res.status(400).json({ message: 'One or more assigned users do not exist' });
-      }
       task.assignedTo = assignedTo;
     }
 
     await task.save();
+    await recordTaskUpdated(task._id, before, snapshotTask(task), user._id);
+
+    if (wipOverride) {
+      io.to('admin').emit('wipLimitExceeded', {
+        taskId: task._id.toString(),
+        projectId: targetProject?._id.toString(),
+        overriddenBy: { id: user._id.toString(), name: user.name },
+        ...wipOverride
+      });
+    }
 
     // Populate updated task
     await task.populate('assignedTo', 'name email');
     await task.populate('assignedBy', 'name email');
     await task.populate('projectId', 'name');
+    await task.populate('labels', 'name color');
 
     // Notify all assigned users about the update
     // Notify previous assigned users
@@ -278,8 +503,163 @@ router.put('/:id', protect, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Move task to a column and position (drag-and-drop)
+// Body: { status?, prevId?, nextId?, overrideWipLimit?, overrideBlockers? } where prevId/nextId are
+// the cards that should end up directly above/below; omit both to drop at the bottom
+router.patch('/:id/move', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status, prevId, nextId, overrideWipLimit, overrideBlockers } = req.body;
+    const user = req.user;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    if (!user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    const task = await Task.findById(id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    // Anyone who may change the status may move the card
+    if (!(await canMoveTask(task, user, req.permissions))) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const workflow = await getWorkflow(task.projectId);
+    const targetStatus = status !== undefined ? status : task.status;
+
+    if (!hasStatus(workflow, targetStatus)) {
+      return res.status(400).json({ message: `Invalid status "${targetStatus}" for this workflow` });
+    }
+
+    if (!canTransition(workflow, task.status, targetStatus)) {
+      return res.status(400).json({
+        message: `Cannot move task from "${task.status}" to "${targetStatus}"`
+      });
+    }
+
+    if (targetStatus !== task.status && isGatedStatus(workflow, targetStatus)
+      && !(overrideBlockers === true && hasPermission(req, 'task:override'))) {
+      const blockers = await openBlockers(task);
+      if (blockers.length > 0) {
+        return res.status(409).json(blockedError(blockers));
+      }
+    }
+
+    let wipOverride: WipViolation | null = null;
+    if (targetStatus !== task.status) {
+      const violation = await checkWipLimit(workflow, task.projectId, targetStatus, assigneeIds(task), task._id);
+      if (violation) {
+        if (!(overrideWipLimit === true && hasPermission(req, 'task:override'))) {
+          return res.status(409).json(wipError(violation));
+        }
+        wipOverride = violation;
+      }
+    }
+
+    // Resolve both neighbours in the target column (excluding the moved card)
+    await ensureColumnRanked(task.projectId, targetStatus);
+    const column = { projectId: task.projectId || null, status: targetStatus, _id: { $ne: task._id } };
+
+    for (const neighbourId of [prevId, nextId]) {
+      if (neighbourId && !mongoose.Types.ObjectId.isValid(neighbourId)) {
+        return res.status(400).json({ message: 'Invalid neighbour task ID format' });
+      }
+    }
+
+    let prev = prevId ? await Task.findOne({ ...column, _id: prevId }).select('rank') : null;
+    let next = nextId ? await Task.findOne({ ...column, _id: nextId }).select('rank') : null;
+
+    if ((prevId && !prev) || (nextId && !next) || prevId === id || nextId === id) {
+      return res.status(400).json({ message: 'Neighbour tasks must be other tasks in the target column' });
+    }
+
+    if (prev && !next) {
+      next = await Task.findOne({ ...column, rank: { $gt: prev.rank } }).sort({ rank: 1 }).select('rank');
+    } else if (next && !prev) {
+      prev = await Task.findOne({ ...column, rank: { $lt: next.rank } }).sort({ rank: -1 }).select('rank');
+    } else if (!prev && !next) {
+      prev = await Task.findOne(column).sort({ rank: -1 }).select('rank');
+    }
+
+    // Neighbours out of order mean the client's board is stale
+    const placeBetween = (prevRank: string | null, nextRank: string | null) => {
+      try {
+        return rankBetween(prevRank, nextRank);
+      } catch (err) {
+        return null;
+      }
+    };
+
+    let rank = placeBetween(prev?.rank || null, next?.rank || null);
+
+    // Many moves into the same gap make long ranks; respace the column and place again
+    if (rank && rank.length > MAX_RANK_LENGTH) {
+      await rebalanceColumn(task.projectId, targetStatus);
+      const [prevRank, nextRank] = await Promise.all([prev, next].map(async neighbour =>
+        neighbour ? (await Task.findById(neighbour._id).select('rank'))?.rank || null : null));
+      rank = placeBetween(prevRank, nextRank);
+    }
+
+    if (!rank) {
+      return res.status(409).json({ message: 'Board is out of date, reload and try again' });
+    }
+
+    // Set column and position together, only if nobody changed the task meanwhile
+    const before = snapshotTask(task);
+    const moved = await Task.findOneAndUpdate(
+      { _id: task._id, status: task.status, updatedAt: task.updatedAt },
+      { $set: { status: targetStatus, rank } },
+      { new: true }
+    );
+
+    if (!moved) {
+      return res.status(409).json({ message: 'Task was changed by someone else, reload and try again' });
+    }
+
+    await recordTaskUpdated(moved._id, before, snapshotTask(moved), user._id);
+
+    if (wipOverride) {
+      io.to('admin').emit('wipLimitExceeded', {
+        taskId: moved._id.toString(),
+        projectId: moved.projectId?.toString(),
+        overriddenBy: { id: user._id.toString(), name: user.name },
+        ...wipOverride
+      });
+    }
+
+    const payload = {
+      taskId: moved._id.toString(),
+      projectId: moved.projectId?.toString() || null,
+      fromStatus: task.status,
+      status: moved.status,
+      rank: moved.rank,
+      movedBy: user._id.toString()
+    };
+
+    // Every board showing this task (assignees, creator and admins) reorders live
+    const rooms = new Set([...assigneeIds(moved), moved.assignedBy.toString(), 'admin']);
+    rooms.forEach(room => io.to(room).emit('taskMoved', payload));
+
+    await moved.populate('assignedTo', 'name email');
+    await moved.populate('assignedBy', 'name email');
+    await moved.populate('projectId', 'name');
+    await moved.populate('labels', 'name color');
+
+    return res.json({ task: moved });
+  } catch (error) {
+    console.error('Move task error:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Delete task
-router.delete('/:id', protect, authorize('admin'), async (req: AuthRequest, res: Response) => {
+router.delete('/:id', protect, requirePermission('task:delete'), async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
     if (!user) {
@@ -293,6 +673,9 @@ router.delete('/:id', protect, authorize('admin'), async (req: AuthRequest, res:
 
     // Remove the task
     await Task.findByIdAndDelete(req.params.id);
+    await Comment.deleteMany({ task: task._id });
+    await Task.updateMany({ blockedBy: task._id }, { $pull: { blockedBy: task._id } });
+    await recordTaskDeleted(task, user._id);
 
     // Notify assigned users about deletion
     task.assignedTo.forEach((userId: any) => {
@@ -1,18 +1,20 @@
 
 // server/src/routes/teams.ts
 import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import Team from '../models/Team';
 import User from '../models/User';
 import { AuthRequest } from '../types';
 import { protect} from '../middleware/auth';
-import {authorize}from '../middleware/authorize';
+import { hasPermission, requirePermission } from '../middleware/requirePermission';
+import { buildAvailabilityCalendar, parseCalendarRange } from '../utils/teamCalendar';
 
 
 
 const router = express.Router();
 
 // Get all teams with populated members
-router.get('/', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.get('/', protect, requirePermission('team:read'), async (req: Request, res: Response) => {
   try {
     const teams = await Team.find({})
       .populate('members', 'name email role isActive')
@@ -26,7 +28,7 @@ router.get('/', protect, authorize('admin'), async (req: Request, res: Response)
 });
 
 // Get single team
-router.get('/:id', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.get('/:id', protect, requirePermission('team:read'), async (req: Request, res: Response) => {
   try {
     const team = await Team.findById(req.params.id)
       .populate('members', 'name email role isActive');
@@ -42,8 +44,47 @@ router.get('/:id', protect, authorize('admin'), async (req: Request, res: Respon
   }
 });
 
+// Get who is out and what is due for the team's members (team:read or membership).
+// ?from&to are dates, both included; tasks due while an assignee is away are flagged.
+router.get('/:id/calendar', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ success: false, message: 'Invalid team ID format' });
+    }
+
+    const team = await Team.findById(req.params.id);
+    if (!team) {
+      return res.status(404).json({ success: false, message: 'Team not found' });
+    }
+
+    const isMember = team.members.some(member => member.equals(req.user!._id));
+    if (!isMember && !hasPermission(req, 'team:read')) {
+      return res.status(403).json({ success: false, message: 'Not authorized to view this team' });
+    }
+
+    const range = parseCalendarRange(req.query.from, req.query.to);
+    if (typeof range === 'string') {
+      return res.status(400).json({ success: false, message: range });
+    }
+
+    const calendar = await buildAvailabilityCalendar(team.members, range.from, range.to, {
+      user: req.user,
+      permissions: req.permissions || []
+    });
+
+    return res.json({ success: true, data: { team: { id: team._id.toString(), name: team.name }, ...calendar } });
+  } catch (error) {
+    console.error('Get team calendar error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
 // Create new team
-router.post('/', protect, authorize('admin'), async (req: AuthRequest, res: Response) => {
+router.post('/', protect, requirePermission('team:manage'), async (req: AuthRequest, res: Response) => {
   try {
     const { name, description, project, members } = req.body;
     
@@ -78,7 +119,7 @@ router.post('/', protect, authorize('admin'), async (req: AuthRequest, res: Resp
 });
 
 // Update team
-router.put('/:id', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.put('/:id', protect, requirePermission('team:manage'), async (req: Request, res: Response) => {
   try {
     const { name, description, project, members } = req.body;
     
@@ -100,7 +141,7 @@ router.put('/:id', protect, authorize('admin'), async (req: Request, res: Respon
 });
 
 // Delete team
-router.delete('/:id', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.delete('/:id', protect, requirePermission('team:manage'), async (req: Request, res: Response) => {
   try {
     const team = await Team.findByIdAndDelete(req.params.id);
     
@@ -115,8 +156,75 @@ router.delete('/:id', protect, authorize('admin'), async (req: Request, res: Res
   }
 });
 
+// Set the team lead, the approval chain for leave requested by members and the
+// minimum staffing checked when leave is approved (null clears it).
+// Chain steps are { approver: 'team-lead' | 'admin' } or { approver: 'user', user }.
+router.put('/:id/leave-approval', protect, requirePermission('team:manage'), async (req: Request, res: Response) => {
+  try {
+    const { lead, leaveApprovalChain, minimumStaffing } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ success: false, message: 'Invalid team ID format' });
+    }
+
+    const team = await Team.findById(req.params.id);
+    if (!team) {
+      return res.status(404).json({ success: false, message: 'Team not found' });
+    }
+
+    if (lead !== undefined) {
+      if (lead !== null && !team.members.some(member => member.equals(String(lead)))) {
+        return res.status(400).json({ success: false, message: 'The team lead must be a member of the team' });
+      }
+      team.lead = lead === null ? undefined : lead;
+    }
+
+    if (leaveApprovalChain !== undefined) {
+      const validStep = (step: any) =>
+        ['team-lead', 'admin'].includes(step?.approver)
+        || (step?.approver === 'user' && mongoose.Types.ObjectId.isValid(String(step.user)));
+
+      if (!Array.isArray(leaveApprovalChain) || !leaveApprovalChain.every(validStep)) {
+        return res.status(400).json({ 
+          success: false, 
+          message: "Each step must be { approver: 'team-lead' | 'admin' } or { approver: 'user', user }" 
+        });
+      }
+
+      const namedUsers = leaveApprovalChain.filter((step: any) => step.approver === 'user').map((step: any) => step.user);
+      const found = await User.countDocuments({ _id: { $in: namedUsers }, isActive: true });
+      if (found !== new Set(namedUsers.map(String)).size) {
+        return res.status(400).json({ success: false, message: 'Some approvers do not exist' });
+      }
+
+      team.set('leaveApprovalChain', leaveApprovalChain.map((step: any) => (
+        step.approver === 'user' ? { approver: 'user', user: step.user } : { approver: step.approver }
+      )));
+    }
+
+    if (minimumStaffing !== undefined) {
+      if (minimumStaffing !== null && (!Number.isInteger(minimumStaffing) || minimumStaffing < 0)) {
+        return res.status(400).json({ success: false, message: 'minimumStaffing must be a whole number, 0 or more' });
+      }
+      team.minimumStaffing = minimumStaffing === null ? undefined : minimumStaffing;
+    }
+
+    await team.save();
+
+    const populatedTeam = await Team.findById(team._id)
+      .populate('members', 'name email role isActive')
+      .populate('lead', 'name email')
+      .populate('leaveApprovalChain.user', 'name email');
+
+    return res.json({ success: true, team: populatedTeam });
+  } catch (error) {
+    console.error('Update leave approval error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
 // Add member to team
-router.post('/:id/members', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.post('/:id/members', protect, requirePermission('team:manage'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.body;
     
@@ -143,8 +251,11 @@ router.post('/:id/members', protect, authorize('admin'), async (req: Request, re
 });
 
 // Remove member from team
-router.delete('/:id/members/:userId', protect, authorize('admin'), async (req: Request, res: Response) => {
+router.delete('/:id/members/:userId', protect, requirePermission('team:manage'), async (req: Request, res: Response) => {
   try {
+    // A member who leaves the team is no longer its lead either
+    await Team.updateOne({ _id: req.params.id, lead: req.params.userId }, { $unset: { lead: 1 } });
+
     const team = await Team.findByIdAndUpdate(
       req.params.id,
       { $pull: { members: req.params.userId } },
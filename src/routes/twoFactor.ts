@@ -0,0 +1,248 @@
+// server/src/routes/twoFactor.ts
+import express, { Response } from 'express';
+import User from '../models/User';
+import Session from '../models/Session';
+import Setting from '../models/Setting';
+import { protect, requireSession } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+import { AuthRequest } from '../types';
+import { generateTotpSecret, provisioningUri, verifyTotp } from '../utils/totp';
+import {
+  TWO_FACTOR_POLICY_KEY,
+  generateRecoveryCodes,
+  requiredTwoFactorRoles,
+  twoFactorRequiredFor,
+  verifySecondFactor
+} from '../utils/twoFactor';
+
+const router = express.Router();
+
+const TOTP_ISSUER = 'Kanban';
+const USER_ROLES = ['admin', 'user'];
+
+// Two-factor status of the current user
+router.get('/', protect, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    const user = await User.findById(req.user._id).select('+twoFactor.recoveryCodes');
+
+    return res.json({
+      success: true,
+      data: {
+        enabled: Boolean(user?.twoFactor?.enabled),
+        enabledAt: user?.twoFactor?.enabledAt,
+        required: await twoFactorRequiredFor(req.user),
+        recoveryCodesRemaining: user?.twoFactor?.recoveryCodes?.length || 0
+      }
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Start enrolment: returns a new secret to add to an authenticator app
+router.post('/setup', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    if (req.user.twoFactor?.enabled) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Two-factor authentication is already enabled' 
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne({ _id: req.user._id }, { $set: { 'twoFactor.pendingSecret': secret } });
+
+    return res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUrl: provisioningUri(secret, req.user.email, TOTP_ISSUER)
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Finish enrolment with a code from the app; recovery codes are only shown here
+router.post('/verify', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    const { code } = req.body;
+    const user = await User.findById(req.user._id).select('+twoFactor.pendingSecret');
+    const pendingSecret = user?.twoFactor?.pendingSecret;
+
+    if (!user || !pendingSecret || user.twoFactor?.enabled) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Start two-factor setup first' 
+      });
+    }
+
+    const step = typeof code === 'string' ? verifyTotp(pendingSecret, code) : null;
+    if (step === null) {
+      return res.status(400).json({ 
+        success: false,
+        message: 'Invalid authentication code' 
+      });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          'twoFactor.enabled': true,
+          'twoFactor.secret': pendingSecret,
+          'twoFactor.lastUsedStep': step,
+          'twoFactor.recoveryCodes': hashes,
+          'twoFactor.enabledAt': new Date()
+        },
+        $unset: { 'twoFactor.pendingSecret': 1 }
+      }
+    );
+
+    // A session limited to enrolment becomes a normal one
+    if (req.sessionId) {
+      await Session.updateOne({ _id: req.sessionId }, { $unset: { restricted: 1 } });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes: codes }
+    });
+  } catch (error) {
+    console.error('Two-factor verify error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Turn two-factor auth off; needs the password and a current code or recovery code
+router.post('/disable', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    const { password, code, recoveryCode } = req.body;
+
+    if (await twoFactorRequiredFor(req.user)) {
+      return res.status(403).json({ 
+        success: false,
+        message: 'Two-factor authentication is required for your role' 
+      });
+    }
+
+    const user = await User.findById(req.user._id).select('+password');
+    const passwordOk = user && typeof password === 'string' ? await user.comparePassword(password) : false;
+    const codeOk = passwordOk && await verifySecondFactor(req.user._id, {
+      code: typeof code === 'string' ? code : undefined,
+      recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : undefined
+    });
+
+    if (!codeOk) {
+      return res.status(401).json({ 
+        success: false,
+        message: 'Invalid password or authentication code' 
+      });
+    }
+
+    await User.updateOne(
+      { _id: req.user._id },
+      {
+        $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodes': [] },
+        $unset: {
+          'twoFactor.secret': 1,
+          'twoFactor.pendingSecret': 1,
+          'twoFactor.lastUsedStep': 1,
+          'twoFactor.enabledAt': 1
+        }
+      }
+    );
+
+    return res.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Replace all recovery codes; needs a current TOTP code
+router.post('/recovery-codes', protect, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authorized' });
+    }
+
+    const { code } = req.body;
+    const verified = typeof code === 'string' && await verifySecondFactor(req.user._id, { code });
+
+    if (!verified) {
+      return res.status(401).json({ 
+        success: false,
+        message: 'Invalid authentication code' 
+      });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.updateOne({ _id: req.user._id }, { $set: { 'twoFactor.recoveryCodes': hashes } });
+
+    return res.json({ success: true, data: { recoveryCodes: codes } });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Get the roles that must use two-factor auth
+router.get('/policy', protect, requirePermission('user:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    return res.json({ success: true, data: { requiredRoles: await requiredTwoFactorRoles() } });
+  } catch (error) {
+    console.error('Get two-factor policy error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Set the roles that must use two-factor auth; unenrolled users of those roles
+// get a session limited to enrolment at their next login
+router.put('/policy', protect, requirePermission('user:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { requiredRoles } = req.body;
+
+    if (!Array.isArray(requiredRoles) || requiredRoles.some(role => !USER_ROLES.includes(role))) {
+      return res.status(400).json({ 
+        success: false,
+        message: `requiredRoles must be a list of: ${USER_ROLES.join(', ')}` 
+      });
+    }
+
+    const roles = [...new Set<string>(requiredRoles)];
+    await Setting.findOneAndUpdate(
+      { key: TWO_FACTOR_POLICY_KEY },
+      { $set: { value: roles, updatedBy: req.user?._id } },
+      { upsert: true }
+    );
+
+    return res.json({ success: true, data: { requiredRoles: roles } });
+  } catch (error) {
+    console.error('Update two-factor policy error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,16 +1,23 @@
 // server/src/routes/users.ts
 import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import User from '../models/User';
 import Team from '../models/Team';
+import Project from '../models/Project';
 import { AuthRequest } from '../types';
 import { protect} from '../middleware/auth';
-import {authorize}from '../middleware/authorize';
+import { requirePermission } from '../middleware/requirePermission';
+import { revokeAllSessions } from '../utils/sessions';
+import Role from '../models/Role';
+import HolidayCalendar from '../models/HolidayCalendar';
+import { resolvePermissions, isPermission } from '../utils/permissions';
+import { accountLockState, unlockAccount } from '../utils/loginThrottle';
 
 
 const router = express.Router();
 
-// Get all users (admin only)
-router.get('/', protect, authorize('admin'), async (req: Request, res: Response) => {
+// Get all users (user:read)
+router.get('/', protect, requirePermission('user:read'), async (req: Request, res: Response) => {
   try {
     const users = await User.find({})
       .select('-password') // Don't return password
@@ -23,8 +30,8 @@ router.get('/', protect, authorize('admin'), async (req: Request, res: Response)
   }
 });
 
-// Get single user (admin only)
-router.get('/:id', protect, authorize('admin'), async (req: Request, res: Response) => {
+// Get single user (user:read)
+router.get('/:id', protect, requirePermission('user:read'), async (req: Request, res: Response) => {
   try {
     const user = await User.findById(req.params.id).select('-password');
     
@@ -39,8 +46,8 @@ router.get('/:id', protect, authorize('admin'), async (req: Request, res: Respon
   }
 });
 
-// Update user role (admin only)
-router.put('/:id/role', protect, authorize('admin'), async (req: AuthRequest, res: Response) => {
+// Update user role (user:manage)
+router.put('/:id/role', protect, requirePermission('user:manage'), async (req: AuthRequest, res: Response) => {
   try {
     const { role } = req.body;
     
@@ -69,8 +76,138 @@ router.put('/:id/role', protect, authorize('admin'), async (req: AuthRequest, re
   }
 });
 
-// Update user status (admin only)
-router.put('/:id/status', protect, authorize('admin'), async (req: Request, res: Response) => {
+// Get a user's named roles, direct grants and effective permissions (role:manage)
+router.get('/:id/permissions', protect, requirePermission('role:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id).select('-password');
+    
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    
+    const effective = await resolvePermissions(user);
+    await user.populate('roles', 'name permissions');
+    
+    return res.json({
+      success: true,
+      roles: user.roles,
+      permissions: user.permissions,
+      effective
+    });
+  } catch (error) {
+    console.error('Get user permissions error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Set a user's named roles and/or direct permission grants (role:manage)
+router.put('/:id/permissions', protect, requirePermission('role:manage'), async (req: Request, res: Response) => {
+  try {
+    const { roles, permissions } = req.body;
+    const update: Record<string, any> = {};
+    
+    if (roles !== undefined) {
+      if (!Array.isArray(roles) || !roles.every((id: any) => mongoose.Types.ObjectId.isValid(id))) {
+        return res.status(400).json({ success: false, message: 'Roles must be an array of role IDs' });
+      }
+      const existingRoles = await Role.countDocuments({ _id: { $in: roles } });
+      if (existingRoles !== new Set(roles.map(String)).size) {
+        return res.status(400).json({ success: false, message: 'Some roles do not exist' });
+      }
+      update.roles = [...new Set(roles.map(String))];
+    }
+    
+    if (permissions !== undefined) {
+      if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+        return res.status(400).json({ success: false, message: 'Permissions must be from the permission catalogue' });
+      }
+      update.permissions = [...new Set(permissions)];
+    }
+    
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      update,
+      { new: true, runValidators: true }
+    ).select('-password');
+    
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    
+    return res.json({ success: true, user, effective: await resolvePermissions(user) });
+  } catch (error) {
+    console.error('Update user permissions error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Get a user's login lockout state (user:manage)
+router.get('/:id/lock', protect, requirePermission('user:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id).select('email');
+    
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    
+    return res.json({ success: true, data: await accountLockState(user.email) });
+  } catch (error) {
+    console.error('Get lock state error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Clear failed logins and any lockout for a user (user:manage)
+router.post('/:id/unlock', protect, requirePermission('user:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id).select('email');
+    
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    
+    const wasLocked = await unlockAccount(user.email);
+    
+    return res.json({ success: true, message: wasLocked ? 'Account unlocked' : 'Account was not locked' });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Set the holiday calendar a user's leave is counted on; null for the default (leave:configure)
+router.put('/:id/holiday-calendar', protect, requirePermission('leave:configure'), async (req: Request, res: Response) => {
+  try {
+    const { holidayCalendar } = req.body;
+
+    if (holidayCalendar !== null) {
+      if (!mongoose.Types.ObjectId.isValid(String(holidayCalendar))) {
+        return res.status(400).json({ success: false, message: 'Invalid calendar ID format' });
+      }
+      if (!(await HolidayCalendar.exists({ _id: holidayCalendar }))) {
+        return res.status(404).json({ success: false, message: 'Holiday calendar not found' });
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      holidayCalendar === null ? { $unset: { holidayCalendar: 1 } } : { holidayCalendar },
+      { new: true }
+    ).select('-password');
+
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    return res.json({ success: true, user });
+  } catch (error) {
+    console.error('Update user holiday calendar error:', error);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Update user status (user:manage)
+router.put('/:id/status', protect, requirePermission('user:manage'), async (req: Request, res: Response) => {
   try {
     const { isActive } = req.body;
     
@@ -84,6 +221,11 @@ router.put('/:id/status', protect, authorize('admin'), async (req: Request, res:
       return res.status(404).json({ success: false, message: 'User not found' });
     }
     
+    // Deactivated users are signed out everywhere immediately
+    if (!user.isActive) {
+      await revokeAllSessions(user._id, 'deactivated');
+    }
+    
     return res.json({ success: true,  user });
   } catch (error) {
     console.error('Update user status error:', error);
@@ -91,8 +233,8 @@ router.put('/:id/status', protect, authorize('admin'), async (req: Request, res:
   }
 });
 
-// Delete user (admin only)
-router.delete('/:id', protect, authorize('admin'), async (req: Request, res: Response) => {
+// Delete user (user:manage)
+router.delete('/:id', protect, requirePermission('user:manage'), async (req: Request, res: Response) => {
   try {
     const user = await User.findByIdAndDelete(req.params.id);
     
@@ -100,11 +242,23 @@ router.delete('/:id', protect, authorize('admin'), async (req: Request, res: Res
       return res.status(404).json({ success: false, message: 'User not found' });
     }
     
+    await revokeAllSessions(user._id, 'deactivated');
+    
     // Remove user from any teams
     await Team.updateMany(
       { members: user._id },
       { $pull: { members: user._id } }
     );
+    await Team.updateMany(
+      { lead: user._id },
+      { $unset: { lead: 1 } }
+    );
+    
+    // Remove user from any projects
+    await Project.updateMany(
+      { 'members.user': user._id },
+      { $pull: { members: { user: user._id } } }
+    );
     
     return res.json({ success: true, message: 'User deleted successfully' });
   } catch (error) {
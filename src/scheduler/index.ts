@@ -0,0 +1,118 @@
+// server/src/scheduler/index.ts
+import { Server } from 'socket.io';
+import Task from '../models/Task';
+import RecurringTask, { IRecurringTask } from '../models/RecurringTask';
+import { parseCron, nextOccurrence } from '../utils/cron';
+import { checkWipLimit, getWorkflow, initialStatus } from '../utils/workflow';
+import { rankAtEnd } from '../utils/rank';
+import { recordTaskCreated } from '../utils/activity';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Creates the task for one template occurrence. Returns null if it already
+// exists (the unique recurrence index rejects the duplicate insert), or if it
+// would break a WIP limit: nobody is there to override, so that occurrence is
+// skipped and logged.
+const createOccurrence = async (io: Server, template: IRecurringTask, occurrence: Date) => {
+  const workflow = await getWorkflow(template.projectId);
+  const status = initialStatus(workflow);
+
+  const task = new Task({
+    title: template.title,
+    description: template.description,
+    priority: template.priority,
+    status,
+    assignedTo: template.assignedTo,
+    assignedBy: template.createdBy,
+    dueDate: template.dueOffsetDays !== undefined
+      ? new Date(occurrence.getTime() + template.dueOffsetDays * DAY_MS)
+      : undefined,
+    projectId: template.projectId,
+    rank: await rankAtEnd(template.projectId, status),
+    recurrence: { template: template._id, occurrence }
+  });
+
+  const violation = await checkWipLimit(
+    workflow, template.projectId, status, template.assignedTo.map(String), task._id
+  );
+  if (violation) {
+    console.warn(`Recurring task ${template._id} skipped for ${occurrence.toISOString()}: WIP limit of "${violation.column}" reached`);
+    return null;
+  }
+
+  try {
+    await task.save();
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+
+  await recordTaskCreated(task, template.createdBy);
+
+  await task.populate('assignedTo', 'name email');
+  await task.populate('assignedBy', 'name email');
+  await task.populate('projectId', 'name');
+
+  task.assignedTo.forEach((userId: any) => {
+    io.to(userId._id.toString()).emit('taskAssigned', task);
+  });
+  io.to(template.createdBy.toString()).emit('taskCreated', task);
+
+  return task;
+};
+
+// Generates due occurrences. After downtime only the latest missed occurrence
+// is created, so a long outage does not flood boards with stale copies.
+export const runDueTemplates = async (io: Server, now = new Date()) => {
+  const templates = await RecurringTask.find({ isActive: true, nextRunAt: { $lte: now } });
+
+  for (const template of templates) {
+    try {
+      const schedule = parseCron(template.schedule);
+      let occurrence = template.nextRunAt!;
+      let next = nextOccurrence(schedule, occurrence);
+      while (next && next <= now) {
+        occurrence = next;
+        next = nextOccurrence(schedule, next);
+      }
+
+      // Create first, then advance: a crash in between just retries the same
+      // occurrence, which the unique index turns into a no-op
+      await createOccurrence(io, template, occurrence);
+
+      await RecurringTask.updateOne(
+        { _id: template._id, nextRunAt: template.nextRunAt },
+        next
+          ? { $set: { nextRunAt: next, lastRunAt: occurrence } }
+          : { $set: { lastRunAt: occurrence }, $unset: { nextRunAt: 1 } }
+      );
+    } catch (error) {
+      console.error(`Recurring task ${template._id} failed:`, error);
+    }
+  }
+};
+
+const initializeScheduler = (io: Server) => {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await runDueTemplates(io);
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, POLL_INTERVAL_MS);
+};
+
+export default initializeScheduler;
@@ -15,8 +15,18 @@ import taskRoutes from './routes/tasks';
 import teamRoutes from './routes/teams';
 import userRoutes from './routes/users';
 import leaveRoutes from './routes/leaves' // Add this import
+import leaveTypeRoutes from './routes/leaveTypes';
+import holidayCalendarRoutes from './routes/holidayCalendars';
 import ProjectRoutes from './routes/projects'
+import recurringTaskRoutes from './routes/recurringTasks';
+import labelRoutes from './routes/labels';
+import roleRoutes from './routes/roles';
+import invitationRoutes from './routes/invitations';
+import apiTokenRoutes from './routes/apiTokens';
+import calendarFeedRoutes from './routes/calendarFeeds';
 import initializeSocket from './socket';
+import initializeScheduler from './scheduler';
+import runMigrations from './migrations';
 
 // Load environment variables
 dotenv.config();
@@ -39,6 +49,13 @@ const io = new Server(server, {
   }
 });
 
+// Behind a reverse proxy, TRUST_PROXY (hop count or "true") makes req.ip the
+// client address, which login throttling relies on
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', isNaN(hops) ? process.env.TRUST_PROXY === 'true' : hops);
+}
+
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -63,7 +80,15 @@ app.use('/api/tasks', taskRoutes);
 app.use('/api/teams', teamRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/leaves', leaveRoutes);
+app.use('/api/leave-types', leaveTypeRoutes);
+app.use('/api/holiday-calendars', holidayCalendarRoutes);
 app.use('/api/projects', ProjectRoutes);
+app.use('/api/recurring-tasks', recurringTaskRoutes);
+app.use('/api/labels', labelRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/tokens', apiTokenRoutes);
+app.use('/api/calendar', calendarFeedRoutes);
 // Health check
 app.get('/api/health', (req, res) => {
   return res.json({ 
@@ -91,12 +116,19 @@ const PORT = process.env.PORT || 5000;
 
 // Connect to MongoDB
 mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/rbac')
-  .then(() => {
+  .then(async () => {
     console.log('MongoDB connected');
+
+    // Data the current code relies on must be in place before serving requests
+    await runMigrations();
+
     server.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
       console.log(`Socket.IO server initialized`);
     });
+
+    // Start background jobs once the database is available
+    initializeScheduler(io);
   })
   .catch((err) => {
     console.error('MongoDB connection error:', err);
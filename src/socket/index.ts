@@ -1,13 +1,13 @@
 // server/src/socket/index.ts (Auth only version)
 import { Server, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
-import User from '../models/User';
 import { SocketUser } from '../types/';
+import { verifyAccessToken, sessionRoom } from '../utils/sessions';
 
 interface CustomSocket extends Socket {
   user?: SocketUser;
   userId?: string;
   role?: 'admin' | 'user';
+  sessionId?: string;
 }
 
 const initializeSocket = (io: Server) => {
@@ -19,13 +19,19 @@ const initializeSocket = (io: Server) => {
         return next(new Error('Authentication error'));
       }
       
-      const decoded: any = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
-      const user = await User.findById(decoded.id);
+      // Same checks as the HTTP `protect` middleware (revoked sessions, inactive users)
+      const result = await verifyAccessToken(token);
       
-      if (!user) {
-        return next(new Error('User not found'));
+      if ('error' in result) {
+        return next(new Error(result.error));
       }
       
+      if (result.restricted) {
+        return next(new Error('Two-factor authentication must be set up first'));
+      }
+      
+      const { user } = result;
+      
       socket.user = {
         userId: user._id.toString(),
         name: user.name,
@@ -33,6 +39,7 @@ const initializeSocket = (io: Server) => {
       };
       socket.userId = user._id.toString();
       socket.role = user.role;
+      socket.sessionId = result.sessionId;
       
       next();
     } catch (error) {
@@ -50,6 +57,11 @@ const initializeSocket = (io: Server) => {
       console.log(`User ${socket.userId} joined their personal room`);
     }
     
+    // Join the session room so revoking the session disconnects this socket
+    if (socket.sessionId) {
+      socket.join(sessionRoom(socket.sessionId));
+    }
+    
     // Join room based on role for role-specific notifications
     if (socket.role) {
       socket.join(socket.role);
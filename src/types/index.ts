@@ -1,9 +1,13 @@
 import { Request } from 'express';
 import { IUser } from '../models/User'; // ← import the IUser from your model
+import { Permission } from '../utils/permissions';
 
 // AuthRequest type for middleware
 export interface AuthRequest extends Request {
   user?: IUser;
+  sessionId?: string; // Session the access token belongs to
+  apiTokenId?: string; // Set instead of sessionId for personal API tokens
+  permissions?: Permission[]; // Effective permissions, resolved by `protect`
 }
 
 export interface UserDTO {
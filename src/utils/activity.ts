@@ -0,0 +1,102 @@
+// server/src/utils/activity.ts
+import { Types } from 'mongoose';
+import TaskActivity from '../models/TaskActivity';
+import { ITask } from '../models/Task';
+
+// Fields that are tracked in the task activity log
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assignedTo',
+  'dueDate',
+  'projectId',
+  'labels'
+] as const;
+
+export type TaskSnapshot = Record<string, any>;
+
+// Normalise refs and dates so snapshots compare and store cleanly
+const normalise = (value: any): any => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalise).sort();
+  if (value instanceof Types.ObjectId) return value.toString();
+  if (value._id) return value._id.toString();
+  return value;
+};
+
+export const snapshotTask = (task: ITask): TaskSnapshot => {
+  const snapshot: TaskSnapshot = {};
+  TRACKED_TASK_FIELDS.forEach(field => {
+    snapshot[field] = normalise((task as any)[field]);
+  });
+  return snapshot;
+};
+
+export const recordTaskCreated = async (task: ITask, actorId: Types.ObjectId) => {
+  await TaskActivity.create({
+    task: task._id,
+    actor: actorId,
+    action: 'created',
+    newValue: snapshotTask(task)
+  });
+};
+
+// One entry per changed field
+export const recordTaskUpdated = async (
+  taskId: Types.ObjectId,
+  before: TaskSnapshot,
+  after: TaskSnapshot,
+  actorId: Types.ObjectId
+) => {
+  const entries = TRACKED_TASK_FIELDS
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({
+      task: taskId,
+      actor: actorId,
+      action: 'updated',
+      field,
+      oldValue: before[field],
+      newValue: after[field]
+    }));
+
+  if (entries.length > 0) {
+    await TaskActivity.insertMany(entries);
+  }
+};
+
+// The checklist is logged as a whole, in display order, under the field 'checklist'
+export const snapshotChecklist = (task: ITask): TaskSnapshot[] => [...task.checklist]
+  .sort((a, b) => a.order - b.order)
+  .map(item => ({ id: item._id.toString(), text: item.text, done: item.done, assignee: normalise(item.assignee) }));
+
+export const recordChecklistUpdated = async (
+  taskId: Types.ObjectId,
+  before: TaskSnapshot[],
+  after: TaskSnapshot[],
+  actorId: Types.ObjectId
+) => {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+
+  await TaskActivity.create({
+    task: taskId,
+    actor: actorId,
+    action: 'updated',
+    field: 'checklist',
+    oldValue: before,
+    newValue: after
+  });
+};
+
+export const recordTaskDeleted = async (task: ITask, actorId: Types.ObjectId) => {
+  await TaskActivity.create({
+    task: task._id,
+    actor: actorId,
+    action: 'deleted',
+    oldValue: snapshotTask(task)
+  });
+};
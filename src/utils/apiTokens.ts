@@ -0,0 +1,66 @@
+// server/src/utils/apiTokens.ts
+import crypto from 'crypto';
+import ApiToken, { ApiTokenAccess } from '../models/ApiToken';
+import User, { IUser } from '../models/User';
+import { hashToken } from './sessions';
+import { Permission, resolvePermissions } from './permissions';
+
+// Lets `protect` tell personal tokens apart from session JWTs without trying both
+export const API_TOKEN_PREFIX = 'kbt_';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const DEFAULT_API_TOKEN_DAYS = 30;
+export const MAX_API_TOKEN_DAYS = 365;
+
+// Methods a read-only token may use
+export const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export const isApiToken = (token: string) => token.startsWith(API_TOKEN_PREFIX);
+
+export const generateApiToken = () => {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashToken(token), prefix: token.slice(0, API_TOKEN_PREFIX.length + 6) };
+};
+
+export const apiTokenExpiry = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+// Resolves a personal token to its owner. The token can never do more than the
+// owner currently can, so losing a permission also narrows existing tokens.
+export const verifyApiToken = async (
+  token: string
+): Promise<{ user: IUser; tokenId: string; access: ApiTokenAccess; permissions: Permission[] } | { error: string }> => {
+  const apiToken = await ApiToken.findOne({
+    tokenHash: hashToken(token),
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+  if (!apiToken) {
+    return { error: 'Invalid or expired API token' };
+  }
+
+  const user = await User.findById(apiToken.user).select('-password') as IUser | null;
+  if (!user) {
+    return { error: 'User not found' };
+  }
+  if (!user.isActive) {
+    return { error: 'Account is deactivated' };
+  }
+
+  // Only written once a minute so busy scripts do not turn every request into a write
+  const now = new Date();
+  await ApiToken.updateOne(
+    {
+      _id: apiToken._id,
+      $or: [{ lastUsedAt: null }, { lastUsedAt: { $lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } }]
+    },
+    { $set: { lastUsedAt: now } },
+    { timestamps: false }
+  );
+
+  const granted = await resolvePermissions(user);
+  const permissions = granted.filter(permission => apiToken.scopes.includes(permission));
+
+  return { user, tokenId: apiToken._id.toString(), access: apiToken.access, permissions };
+};
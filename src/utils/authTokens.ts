@@ -0,0 +1,64 @@
+// server/src/utils/authTokens.ts
+import crypto from 'crypto';
+import AuthToken, { IAuthToken } from '../models/AuthToken';
+import { IUser } from '../models/User';
+import { getMailer } from '../mailer';
+import { hashToken } from './sessions';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TOKEN_TTL_MS: Record<IAuthToken['type'], number> = {
+  'email-verification': 48 * HOUR_MS,
+  'password-reset': 1 * HOUR_MS,
+  'two-factor-challenge': 5 * 60 * 1000,
+};
+
+const clientUrl = () => process.env.CLIENT_URL || 'http://localhost:3000';
+
+export const requireVerifiedEmail = () => process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+// Issue a new token, invalidating any earlier unused one of the same type
+export const issueAuthToken = async (user: IUser, type: IAuthToken['type']): Promise<string> => {
+  await AuthToken.updateMany({ user: user._id, type, usedAt: null }, { $set: { usedAt: new Date() } });
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await AuthToken.create({
+    user: user._id,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type])
+  });
+
+  return token;
+};
+
+// Marks the token used and returns its user id, or null if unknown, used or expired
+export const consumeAuthToken = async (token: string, type: IAuthToken['type']) => {
+  const stored = await AuthToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), type, usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } }
+  );
+  return stored ? stored.user : null;
+};
+
+export const sendVerificationEmail = async (user: IUser) => {
+  const token = await issueAuthToken(user, 'email-verification');
+  const link = `${clientUrl()}/verify-email?token=${token}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.name},\n\nPlease confirm your email address by opening this link:\n${link}\n\nThe link expires in 48 hours.`
+  });
+};
+
+export const sendPasswordResetEmail = async (user: IUser) => {
+  const token = await issueAuthToken(user, 'password-reset');
+  const link = `${clientUrl()}/reset-password?token=${token}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.name},\n\nA password reset was requested for your account. Open this link to choose a new password:\n${link}\n\nThe link expires in 1 hour. If you did not request this, you can ignore this email.`
+  });
+};
@@ -0,0 +1,68 @@
+// server/src/utils/dependencies.ts
+import { Types } from 'mongoose';
+import Task, { ITask } from '../models/Task';
+import { IWorkflow } from '../models/Project';
+import { getWorkflow } from './workflow';
+
+// The last column of a workflow is its "done" column
+export const doneStatus = (workflow: IWorkflow): string =>
+  workflow.columns[workflow.columns.length - 1].key;
+
+// Statuses a blocked task may not enter while its blockers are open: every
+// column after the first, since only the first means work has not started
+export const isGatedStatus = (workflow: IWorkflow, status: string): boolean =>
+  workflow.columns.findIndex(column => column.key === status) > 0;
+
+// Adding "task is blocked by blocker" is a cycle if the blocker already
+// (transitively) waits on the task
+export const wouldCreateCycle = async (
+  taskId: Types.ObjectId,
+  blockerId: Types.ObjectId
+): Promise<boolean> => {
+  if (taskId.equals(blockerId)) {
+    return true;
+  }
+
+  const visited = new Set<string>([blockerId.toString()]);
+  let frontier = [blockerId];
+
+  while (frontier.length > 0) {
+    const tasks = await Task.find({ _id: { $in: frontier } }, 'blockedBy');
+    const next: Types.ObjectId[] = [];
+
+    for (const task of tasks) {
+      for (const upstream of task.blockedBy) {
+        if (upstream.equals(taskId)) {
+          return true;
+        }
+        if (!visited.has(upstream.toString())) {
+          visited.add(upstream.toString());
+          next.push(upstream);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return false;
+};
+
+// Blockers of a task that are not yet in their own workflow's done column
+export const openBlockers = async (task: ITask): Promise<ITask[]> => {
+  if (!task.blockedBy || task.blockedBy.length === 0) {
+    return [];
+  }
+
+  const blockers = await Task.find({ _id: { $in: task.blockedBy } }, 'title status projectId');
+  const open: ITask[] = [];
+
+  for (const blocker of blockers) {
+    const workflow = await getWorkflow(blocker.projectId);
+    if (blocker.status !== doneStatus(workflow)) {
+      open.push(blocker);
+    }
+  }
+
+  return open;
+};
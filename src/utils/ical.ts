@@ -0,0 +1,89 @@
+// server/src/utils/ical.ts
+import { AvailabilityCalendar } from './teamCalendar';
+import { addDays, dayKey, startOfDay } from './workingDays';
+
+const UID_DOMAIN = 'kanban';
+
+interface IcsEvent {
+  uid: string;
+  start: Date; // All-day events: first day
+  end: Date; // Day after the last one, as iCalendar expects
+  summary: string;
+  description?: string;
+}
+
+// RFC 5545 text escaping
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: Date) => dayKey(date).replace(/-/g, '');
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const renderEvent = (event: IcsEvent, stamp: Date) => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}@${UID_DOMAIN}`,
+  `DTSTAMP:${icsTimestamp(stamp)}`,
+  `DTSTART;VALUE=DATE:${icsDate(event.start)}`,
+  `DTEND;VALUE=DATE:${icsDate(event.end)}`,
+  `SUMMARY:${escapeText(event.summary)}`,
+  ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT'
+];
+
+const nextDay = (date: Date) => addDays(startOfDay(date), 1);
+
+// All-day events for each leave and each task due date in the calendar
+export const availabilityToIcs = (name: string, calendar: AvailabilityCalendar): string => {
+  const events: IcsEvent[] = [
+    ...calendar.leaves.map(leave => ({
+      uid: `leave-${leave.id}`,
+      start: leave.startDate,
+      end: nextDay(leave.endDate),
+      summary: `${leave.user.name} on leave${leave.leaveType ? ` (${leave.leaveType})` : ''}`,
+      description: [
+        leave.halfDayStart ? 'Starts at noon on the first day.' : '',
+        leave.halfDayEnd ? 'Ends at noon on the last day.' : ''
+      ].filter(Boolean).join(' ') || undefined
+    })),
+    ...calendar.tasks.map(task => ({
+      uid: `task-${task.id}`,
+      start: task.dueDate,
+      end: nextDay(task.dueDate),
+      summary: `${task.done ? 'Done' : 'Due'}: ${task.title}`,
+      description: [
+        `Assigned to ${task.assignees.map(assignee => assignee.name).join(', ') || 'nobody'}.`,
+        ...task.assigneesOnLeave.map(assignee => `${assignee.name} is on leave that day.`)
+      ].join(' ')
+    }))
+  ];
+
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//availability//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => renderEvent(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,26 @@
+// server/src/utils/labels.ts
+import mongoose, { Types } from 'mongoose';
+import Label from '../models/Label';
+
+// Labels usable on a task: global ones plus those of the task's project
+export const labelScope = (projectId?: Types.ObjectId | string | null) => ({
+  $or: [{ project: null }, ...(projectId ? [{ project: projectId }] : [])]
+});
+
+// Returns an error message if any label is unknown or outside the task's project
+export const validateTaskLabels = async (
+  labels: any,
+  projectId?: Types.ObjectId | string | null
+): Promise<string | null> => {
+  if (!Array.isArray(labels) || !labels.every(id => mongoose.Types.ObjectId.isValid(id))) {
+    return 'Labels must be an array of label IDs';
+  }
+
+  const unique = new Set(labels.map(String));
+  const found = await Label.countDocuments({ _id: { $in: [...unique] }, ...labelScope(projectId) });
+  if (found !== unique.size) {
+    return 'One or more labels do not exist or belong to another project';
+  }
+
+  return null;
+};
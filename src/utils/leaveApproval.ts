@@ -0,0 +1,112 @@
+// server/src/utils/leaveApproval.ts
+import { FilterQuery, Types } from 'mongoose';
+import { ILeave, ILeaveApproval } from '../models/Leave';
+import { ITeam } from '../models/Team';
+import User, { IUser } from '../models/User';
+import { AuthRequest } from '../types';
+import { hasPermission } from '../middleware/requirePermission';
+import { resolvePermissions } from './permissions';
+
+type ApprovalStep = Pick<ILeaveApproval, 'role' | 'approver'>;
+
+// Requests made before approval chains get a single admin step
+const LEGACY_STEP: ApprovalStep = { role: 'admin' };
+
+// Snapshot of the team's chain for a new request. Team-lead steps name the
+// current lead; steps without a person, or where requesters would approve
+// their own leave, are left out. No chain means one admin approval.
+export const buildApprovalChain = (team: ITeam | null, requesterId: Types.ObjectId): ApprovalStep[] => {
+  const steps: ApprovalStep[] = [];
+
+  for (const step of team?.leaveApprovalChain || []) {
+    if (step.approver === 'admin') {
+      steps.push({ role: 'admin' });
+      continue;
+    }
+
+    const approver = step.approver === 'team-lead' ? team?.lead : step.user;
+    if (approver && !approver.equals(requesterId)) {
+      steps.push({ role: step.approver, approver });
+    }
+  }
+
+  return steps.length > 0 ? steps : [LEGACY_STEP];
+};
+
+export const currentApproval = (leave: ILeave): ApprovalStep =>
+  leave.approvals[leave.currentStep] || LEGACY_STEP;
+
+// A user whose leave decisions someone else may take right now. `canApprove`
+// is whether the delegator holds leave:approve themselves.
+export interface ActiveDelegation {
+  delegator: IUser;
+  canApprove: boolean;
+}
+
+// Delegations to `userId` in effect now, with their permissions resolved once
+export const activeDelegations = async (userId: Types.ObjectId): Promise<ActiveDelegation[]> => {
+  const now = new Date();
+  const delegators = await User.find({
+    'leaveDelegation.delegate': userId,
+    'leaveDelegation.from': { $lte: now },
+    'leaveDelegation.until': { $gte: now },
+    isActive: true
+  }).select('-password');
+
+  return Promise.all(delegators.map(async delegator => ({
+    delegator,
+    canApprove: (await resolvePermissions(delegator)).includes('leave:approve')
+  })));
+};
+
+// Who the signed-in user can decide a step as: `null` if they cannot, otherwise
+// themselves or the approver who delegated to them. Holders of leave:approve may
+// decide any step, so a request never waits on a lead or user who has left.
+// Nobody decides their own leave.
+export const actingApprover = async (
+  req: AuthRequest,
+  leave: ILeave,
+  delegations?: ActiveDelegation[]
+): Promise<{ onBehalfOf?: Types.ObjectId } | null> => {
+  const actor = req.user;
+  if (!actor || leave.user._id.equals(actor._id)) {
+    return null;
+  }
+
+  const step = currentApproval(leave);
+  if (hasPermission(req, 'leave:approve') || step.approver?.equals(actor._id)) {
+    return {};
+  }
+
+  for (const { delegator, canApprove } of delegations ?? await activeDelegations(actor._id)) {
+    if (delegator._id.equals(leave.user._id)) {
+      continue;
+    }
+    if (canApprove || step.approver?.equals(delegator._id)) {
+      return { onBehalfOf: delegator._id };
+    }
+  }
+
+  return null;
+};
+
+// Query for pending requests the signed-in user may be able to decide. It narrows
+// on the current step's approver in the database; actingApprover has the final say.
+export const pendingApprovalsFilter = (
+  req: AuthRequest,
+  delegations: ActiveDelegation[]
+): FilterQuery<ILeave> => {
+  const filter: FilterQuery<ILeave> = { status: 'pending', user: { $ne: req.user?._id } };
+  if (hasPermission(req, 'leave:approve') || delegations.some(delegation => delegation.canApprove)) {
+    return filter;
+  }
+
+  const approvers = [req.user?._id, ...delegations.map(delegation => delegation.delegator._id)];
+  filter.$expr = {
+    $let: {
+      vars: { step: { $arrayElemAt: ['$approvals', '$currentStep'] } },
+      in: { $in: ['$$step.approver', approvers] }
+    }
+  };
+  return filter;
+};
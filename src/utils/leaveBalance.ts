@@ -0,0 +1,99 @@
+// server/src/utils/leaveBalance.ts
+import { Types } from 'mongoose';
+import Leave, { ILeave } from '../models/Leave';
+import LeaveType, { ILeaveType } from '../models/LeaveType';
+import User from '../models/User';
+import { CalendarLookup, HalfDays, calendarCache, calendarForUser, countWorkingDays } from './workingDays';
+
+// Working days a leave takes, on the calendar of the user taking it
+export const leaveDuration = async (
+  userId: Types.ObjectId | string,
+  startDate: Date,
+  endDate: Date,
+  halfDays: HalfDays = {},
+  calendarFor: CalendarLookup = calendarForUser
+) => countWorkingDays(startDate, endDate, await calendarFor(userId), halfDays);
+
+// Requests made before `days` was stored are counted from their dates
+export const chargedDays = async (
+  leave: Pick<ILeave, 'user' | 'startDate' | 'endDate' | 'halfDayStart' | 'halfDayEnd' | 'days'>,
+  calendarFor: CalendarLookup = calendarForUser
+) => leave.days ?? leaveDuration(leave.user._id, leave.startDate, leave.endDate, leave, calendarFor);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Days granted in `year` by `asOf`; past years have accrued in full
+const accruedInYear = (type: ILeaveType, year: number, asOf: Date) => {
+  if (type.accrual === 'yearly' || asOf.getUTCFullYear() > year) {
+    return type.annualAllowance;
+  }
+  return type.annualAllowance * (asOf.getUTCMonth() + 1) / 12;
+};
+
+export interface LeaveBalance {
+  leaveType: { id: string; name: string };
+  year: number;
+  accrued: number; // Granted so far this year
+  carriedOver: number; // Unused days from last year, up to the type's cap
+  used: number; // Approved
+  pending: number; // Requested, still awaiting a decision
+  available: number; // What a new request may use
+}
+
+// Balance of one leave type for a user in the calendar year of `asOf`.
+// Leave counts in the year it starts; pending requests are held back from
+// `available` so several open requests cannot overdraw together.
+export const leaveBalance = async (
+  userId: Types.ObjectId | string,
+  type: ILeaveType,
+  asOf = new Date()
+): Promise<LeaveBalance> => {
+  const year = asOf.getUTCFullYear();
+
+  // Carry-over is replayed from the first year both the user and the type existed
+  const user = await User.findById(userId, 'createdAt').lean<{ createdAt?: Date }>();
+  const firstYear = Math.min(year, Math.max(
+    (user?.createdAt ?? asOf).getUTCFullYear(),
+    type.createdAt.getUTCFullYear()
+  ));
+
+  const leaves = await Leave.find({
+    user: userId,
+    leaveType: type._id,
+    status: { $in: ['approved', 'pending'] },
+    startDate: { $gte: new Date(Date.UTC(firstYear, 0, 1)), $lt: new Date(Date.UTC(year + 1, 0, 1)) }
+  }, 'user startDate endDate halfDayStart halfDayEnd days status');
+
+  const calendarFor = calendarCache();
+  const charged = await Promise.all(leaves.map(leave => chargedDays(leave, calendarFor)));
+
+  const daysIn = (forYear: number, status: ILeave['status']) => leaves
+    .reduce((sum, leave, index) =>
+      leave.status === status && leave.startDate.getUTCFullYear() === forYear ? sum + charged[index] : sum, 0);
+
+  let carriedOver = 0;
+  for (let pastYear = firstYear; pastYear < year; pastYear++) {
+    const left = type.annualAllowance + carriedOver - daysIn(pastYear, 'approved');
+    carriedOver = Math.min(type.carryOverCap, Math.max(0, left));
+  }
+
+  const accrued = accruedInYear(type, year, asOf);
+  const used = daysIn(year, 'approved');
+  const pending = daysIn(year, 'pending');
+
+  return {
+    leaveType: { id: type._id.toString(), name: type.name },
+    year,
+    accrued: round(accrued),
+    carriedOver: round(carriedOver),
+    used: round(used),
+    pending: round(pending),
+    available: round(accrued + carriedOver - used - pending)
+  };
+};
+
+// Balances of every active leave type
+export const leaveBalances = async (userId: Types.ObjectId | string, asOf = new Date()) => {
+  const types = await LeaveType.find({ isActive: true }).sort({ name: 1 });
+  return Promise.all(types.map(type => leaveBalance(userId, type, asOf)));
+};
@@ -0,0 +1,110 @@
+// server/src/utils/leaveCoverage.ts
+import { Types } from 'mongoose';
+import Leave, { ILeave } from '../models/Leave';
+import Team from '../models/Team';
+import { IUser } from '../models/User';
+import { addDays, calendarForUser, dayKey, HalfDays, isWorkingDay, startOfDay } from './workingDays';
+
+type LeaveSpan = Pick<ILeave, 'startDate' | 'endDate' | 'halfDayStart' | 'halfDayEnd'>;
+
+// Two spans overlap unless one ends at noon on the day the other starts at noon
+const spansOverlap = (a: LeaveSpan, b: LeaveSpan) => {
+  if (a.startDate > b.endDate || b.startDate > a.endDate) {
+    return false;
+  }
+  if (a.endDate.getTime() === b.startDate.getTime() && a.halfDayEnd && b.halfDayStart) {
+    return false;
+  }
+  if (b.endDate.getTime() === a.startDate.getTime() && b.halfDayEnd && a.halfDayStart) {
+    return false;
+  }
+  return true;
+};
+
+// The user's pending or approved leave that overlaps the given days, if any
+export const findOverlappingLeave = async (
+  userId: Types.ObjectId,
+  startDate: Date,
+  endDate: Date,
+  { halfDayStart = false, halfDayEnd = false }: HalfDays = {}
+): Promise<ILeave | null> => {
+  const candidates = await Leave.find({
+    user: userId,
+    status: { $in: ['pending', 'approved'] },
+    startDate: { $lte: endDate },
+    endDate: { $gte: startDate }
+  });
+
+  const span = { startDate, endDate, halfDayStart, halfDayEnd };
+  return candidates.find(leave => spansOverlap(leave, span)) || null;
+};
+
+export interface CoverageWarning {
+  team: { id: string; name: string };
+  minimumStaffing: number;
+  members: number; // Active members of the team
+  days: { date: string; present: number; absent: string[] }[];
+}
+
+// Working days of `leave` on which one of the requester's teams would drop below
+// its minimum staffing if the leave is approved. Only approved leave of other
+// members counts; a half day away counts as away.
+export const coverageWarnings = async (leave: ILeave): Promise<CoverageWarning[]> => {
+  const requesterId = leave.user._id;
+  const teams = await Team.find({ members: requesterId, minimumStaffing: { $gt: 0 } })
+    .populate<{ members: IUser[] }>('members', 'name isActive');
+
+  if (teams.length === 0) {
+    return [];
+  }
+
+  const calendar = await calendarForUser(requesterId);
+  const warnings: CoverageWarning[] = [];
+
+  for (const team of teams) {
+    const active = team.members.filter(member => member.isActive);
+    const names = new Map(active.map(member => [member._id.toString(), member.name]));
+
+    const others = await Leave.find({
+      _id: { $ne: leave._id },
+      user: { $in: active.map(member => member._id), $ne: requesterId },
+      status: 'approved',
+      startDate: { $lte: leave.endDate },
+      endDate: { $gte: leave.startDate }
+    }, 'user startDate endDate');
+
+    const days: CoverageWarning['days'] = [];
+    const last = startOfDay(leave.endDate);
+
+    for (let day = startOfDay(leave.startDate); day <= last; day = addDays(day, 1)) {
+      if (!isWorkingDay(day, calendar)) {
+        continue;
+      }
+
+      const absentIds = new Set([requesterId.toString()]);
+      others
+        .filter(other => startOfDay(other.startDate) <= day && startOfDay(other.endDate) >= day)
+        .forEach(other => absentIds.add(other.user.toString()));
+
+      const present = active.filter(member => !absentIds.has(member._id.toString())).length;
+      if (present < team.minimumStaffing!) {
+        days.push({
+          date: dayKey(day),
+          present,
+          absent: [...absentIds].map(id => names.get(id) || id)
+        });
+      }
+    }
+
+    if (days.length > 0) {
+      warnings.push({
+        team: { id: team._id.toString(), name: team.name },
+        minimumStaffing: team.minimumStaffing!,
+        members: active.length,
+        days
+      });
+    }
+  }
+
+  return warnings;
+};
@@ -0,0 +1,64 @@
+// server/src/utils/leaveEvents.ts
+import { Types } from 'mongoose';
+import LeaveEvent, { LeaveEventName } from '../models/LeaveEvent';
+import { ILeave } from '../models/Leave';
+import { IUser } from '../models/User';
+import { io } from '../server';
+import { currentApproval } from './leaveApproval';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read lazily: route modules are imported before dotenv.config() runs in server.ts
+const retentionMs = () => Number(process.env.LEAVE_EVENT_RETENTION_DAYS || 30) * DAY_MS;
+
+// Stores the event, then emits it; the stored id lets clients resume after it.
+// Called after the leave is saved, so a failure here is logged rather than
+// turning a committed change into an error response.
+export const emitLeaveEvent = async (event: LeaveEventName, room: string, leave: ILeave) => {
+  try {
+    const payload = leave.toJSON();
+    const stored = await LeaveEvent.create({
+      room,
+      event,
+      leave: leave._id,
+      payload,
+      expiresAt: new Date(Date.now() + retentionMs())
+    });
+
+    io.to(room).emit(event, { eventId: stored._id.toString(), leave: payload });
+  } catch (error) {
+    console.error(`Leave event ${event} error:`, error);
+  }
+};
+
+// The requester's personal room, whether or not `user` is populated
+export const requesterRoom = (leave: ILeave) => leave.user._id.toString();
+
+// Who hears that a request awaits a decision: the admin role room, since
+// leave:approve holders may decide any step, plus the current step's named lead
+// or user. Works whether or not the approvals are populated.
+export const approverRooms = (leave: ILeave) => {
+  const step = currentApproval(leave);
+  return step.role !== 'admin' && step.approver ? ['admin', step.approver._id.toString()] : ['admin'];
+};
+
+// Rooms a user's sockets join: their own and their role's (see socket/index.ts)
+export const roomsForUser = (user: IUser) => [user._id.toString(), user.role];
+
+// Stored events for the user's rooms after `afterId` (or since `since`), oldest
+// first. One extra is fetched so callers can tell whether more are waiting.
+export const missedLeaveEvents = async (
+  user: IUser,
+  { afterId, since, limit = 100 }: { afterId?: string; since?: Date; limit?: number }
+) => {
+  const events = await LeaveEvent.find({
+    room: { $in: roomsForUser(user) },
+    ...(afterId && { _id: { $gt: new Types.ObjectId(afterId) } }),
+    ...(since && { createdAt: { $gt: since } })
+  })
+    .sort({ _id: 1 })
+    .limit(limit + 1)
+    .select('event leave payload createdAt');
+
+  return { events: events.slice(0, limit), hasMore: events.length > limit };
+};
@@ -0,0 +1,114 @@
+// server/src/utils/leaveHandover.ts
+import { Types } from 'mongoose';
+import { ILeave } from '../models/Leave';
+import Task, { ITask } from '../models/Task';
+import Team from '../models/Team';
+import User, { IUser } from '../models/User';
+import { IWorkflow } from '../models/Project';
+import { io } from '../server';
+import { recordTaskUpdated, snapshotTask } from './activity';
+import { doneStatus } from './dependencies';
+import { hasProjectRole } from './projectAccess';
+import { checkWipLimit, getWorkflow } from './workflow';
+import { addDays, startOfDay } from './workingDays';
+
+// Open tasks of the requester that fall due on any day of the leave
+export const tasksDueDuringLeave = async (leave: ILeave): Promise<ITask[]> => {
+  const afterLast = addDays(startOfDay(leave.endDate), 1);
+
+  const tasks = await Task.find({
+    assignedTo: leave.user._id,
+    dueDate: { $gte: startOfDay(leave.startDate), $lt: afterLast }
+  }).sort({ dueDate: 1 });
+
+  const workflows = new Map<string, IWorkflow>();
+  const open: ITask[] = [];
+  for (const task of tasks) {
+    const key = task.projectId ? task.projectId.toString() : '';
+    if (!workflows.has(key)) {
+      workflows.set(key, await getWorkflow(task.projectId));
+    }
+    if (task.status !== doneStatus(workflows.get(key)!)) {
+      open.push(task);
+    }
+  }
+  return open;
+};
+
+// Fills in the leave's handover report; called when the leave is approved
+export const buildHandover = async (leave: ILeave) => {
+  const tasks = await tasksDueDuringLeave(leave);
+  leave.set('handover', tasks.map(task => ({ task: task._id, title: task.title, dueDate: task.dueDate })));
+};
+
+// Active members of the leave's team, or of every team the requester is in
+// when the leave has none, except the requester
+export const handoverCandidates = async (leave: ILeave): Promise<IUser[]> => {
+  const requesterId = leave.user._id;
+  const teams = await Team.find(leave.team ? { _id: leave.team._id } : { members: requesterId }, 'members');
+  const memberIds = teams
+    .flatMap(team => team.members)
+    .filter(member => !member.equals(requesterId));
+
+  return User.find({ _id: { $in: memberIds }, isActive: true }, 'name email').sort({ name: 1 });
+};
+
+// Why `toUserId` cannot take the task over, or null if they can. Project tasks
+// need a project member, and the new assignee's WIP limit must hold.
+export const handoverBlocker = async (task: ITask, toUserId: Types.ObjectId): Promise<string | null> => {
+  if (task.assignedTo.some(id => id.equals(toUserId))) {
+    return null;
+  }
+
+  if (task.projectId && !(await hasProjectRole(task.projectId, toUserId, 'member'))) {
+    return "Assignee is not a member of the task's project";
+  }
+
+  const workflow = await getWorkflow(task.projectId);
+  const violation = await checkWipLimit(
+    workflow, task.projectId, task.status, [toUserId.toString()], task._id, { assigneesOnly: true }
+  );
+  return violation ? `WIP limit for "${violation.column}" would be exceeded` : null;
+};
+
+// Moves a task from one assignee to another with the same activity entry and
+// socket events as an edit through PUT /api/tasks/:id. Throws only if the task
+// could not be saved.
+export const reassignTask = async (
+  task: ITask,
+  fromUserId: Types.ObjectId,
+  toUserId: Types.ObjectId,
+  actorId: Types.ObjectId
+): Promise<ITask> => {
+  const originalAssignedTo = [...task.assignedTo];
+  const before = snapshotTask(task);
+
+  const remaining = task.assignedTo.filter(id => !id.equals(fromUserId));
+  task.assignedTo = remaining.some(id => id.equals(toUserId)) ? remaining : [...remaining, toUserId];
+
+  await task.save();
+
+  // The reassignment stands once saved; a failure to record or announce it is only logged
+  try {
+    await recordTaskUpdated(task._id, before, snapshotTask(task), actorId);
+
+    await task.populate('assignedTo', 'name email');
+    await task.populate('assignedBy', 'name email');
+    await task.populate('projectId', 'name');
+    await task.populate('labels', 'name color');
+
+    originalAssignedTo.forEach(userId => {
+      io.to(userId.toString()).emit('taskUpdated', task);
+    });
+
+    if (!originalAssignedTo.some(id => id.equals(toUserId))) {
+      io.to(toUserId.toString()).emit('taskAssigned', task);
+    }
+
+    io.to(actorId.toString()).emit('taskUpdated', task);
+  } catch (error) {
+    console.error('Reassign task notification error:', error);
+  }
+
+  return task;
+};
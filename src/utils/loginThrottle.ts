@@ -0,0 +1,81 @@
+// server/src/utils/loginThrottle.ts
+import LoginThrottle from '../models/LoginThrottle';
+
+const MINUTE_MS = 60 * 1000;
+
+// Tunable through the environment; IPs get a higher threshold since offices share them
+const config = () => ({
+  backoffAfter: Number(process.env.LOGIN_BACKOFF_AFTER || 3),
+  maxBackoffMs: Number(process.env.LOGIN_MAX_BACKOFF_SECONDS || 300) * 1000,
+  accountLockAfter: Number(process.env.LOGIN_ACCOUNT_LOCK_AFTER || 10),
+  ipLockAfter: Number(process.env.LOGIN_IP_LOCK_AFTER || 50),
+  lockoutMs: Number(process.env.LOGIN_LOCKOUT_MINUTES || 30) * MINUTE_MS,
+  resetAfterMs: Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES || 60) * MINUTE_MS,
+});
+
+// Unknown emails are tracked exactly like real ones so responses never differ
+const accountKey = (email: string) => `account:${String(email).trim().toLowerCase()}`;
+const ipKey = (ip: string | undefined) => `ip:${ip || 'unknown'}`;
+
+// Seconds the caller must wait before another attempt, or 0 if allowed now
+export const loginRetryAfter = async (ip: string | undefined, email: string): Promise<number> => {
+  const now = Date.now();
+  const entries = await LoginThrottle.find({
+    key: { $in: [ipKey(ip), accountKey(email)] },
+    blockedUntil: { $gt: new Date(now) }
+  });
+
+  const until = Math.max(0, ...entries.map(entry => entry.blockedUntil!.getTime()));
+  return until > now ? Math.ceil((until - now) / 1000) : 0;
+};
+
+const recordFailure = async (key: string, lockAfter: number) => {
+  const { backoffAfter, maxBackoffMs, lockoutMs, resetAfterMs } = config();
+  const now = Date.now();
+
+  const entry = await LoginThrottle.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: new Date(now), expiresAt: new Date(now + Math.max(resetAfterMs, lockoutMs)) }
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  // Lockout at the threshold, otherwise exponential backoff (1s, 2s, 4s, ...)
+  if (entry.failures >= lockAfter) {
+    entry.locked = true;
+    entry.blockedUntil = new Date(now + lockoutMs);
+  } else if (entry.failures >= backoffAfter) {
+    const delay = Math.min(1000 * 2 ** (entry.failures - backoffAfter), maxBackoffMs);
+    entry.blockedUntil = new Date(now + delay);
+  }
+  await entry.save();
+};
+
+export const recordLoginFailure = async (ip: string | undefined, email: string) => {
+  const { accountLockAfter, ipLockAfter } = config();
+  await recordFailure(accountKey(email), accountLockAfter);
+  await recordFailure(ipKey(ip), ipLockAfter);
+};
+
+// A successful login clears the account counter; the IP counter is left alone
+// so one valid account cannot be used to reset an attacker's budget
+export const recordLoginSuccess = async (email: string) => {
+  await LoginThrottle.deleteOne({ key: accountKey(email) });
+};
+
+// Admin unlock: returns whether there was anything to clear
+export const unlockAccount = async (email: string): Promise<boolean> => {
+  const { deletedCount } = await LoginThrottle.deleteOne({ key: accountKey(email) });
+  return deletedCount > 0;
+};
+
+export const accountLockState = async (email: string) => {
+  const entry = await LoginThrottle.findOne({ key: accountKey(email) });
+  return {
+    failures: entry?.failures || 0,
+    locked: !!entry && entry.locked && !!entry.blockedUntil && entry.blockedUntil > new Date(),
+    blockedUntil: entry?.blockedUntil || null
+  };
+};
@@ -0,0 +1,51 @@
+// server/src/utils/permissions.ts
+import Role from '../models/Role';
+import { IUser } from '../models/User';
+
+// Every permission the API checks, with a short description for admin UIs
+export const PERMISSIONS = {
+  'task:read-all': 'See every task, not only assigned or created ones',
+  'task:create': 'Create tasks',
+  'task:update': 'Edit any task',
+  'task:delete': 'Delete tasks',
+  'task:override': 'Override WIP limits and blocking dependencies',
+  'comment:moderate': 'Delete other users\' comments',
+  'project:manage': 'Create, edit and delete projects',
+  'label:manage': 'Create, edit and delete labels',
+  'recurring:manage': 'Manage recurring task templates',
+  'team:read': 'View teams',
+  'team:manage': 'Create, edit and delete teams and their members',
+  'user:read': 'View users',
+  'user:manage': 'Change user roles, status and delete users',
+  'leave:read-all': 'View everyone\'s leave requests and statistics',
+  'leave:approve': 'Approve or reject leave requests',
+  'leave:configure': 'Manage leave types and their allowances',
+  'role:manage': 'Manage roles and permission grants',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const isPermission = (value: any): value is Permission =>
+  typeof value === 'string' && value in PERMISSIONS;
+
+// What the built-in account roles grant before any named roles or direct grants
+export const BASE_ROLE_PERMISSIONS: Record<IUser['role'], Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  user: [],
+};
+
+// Base role + named roles + direct grants on the user
+export const resolvePermissions = async (user: IUser): Promise<Permission[]> => {
+  const permissions = new Set<Permission>(BASE_ROLE_PERMISSIONS[user.role] || []);
+
+  (user.permissions || []).filter(isPermission).forEach(permission => permissions.add(permission));
+
+  if (user.roles && user.roles.length > 0) {
+    const roles = await Role.find({ _id: { $in: user.roles } }, 'permissions');
+    roles.forEach(role => role.permissions.filter(isPermission).forEach(permission => permissions.add(permission)));
+  }
+
+  return [...permissions];
+};
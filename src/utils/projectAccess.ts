@@ -0,0 +1,35 @@
+// server/src/utils/projectAccess.ts
+import { Types } from 'mongoose';
+import Project, { IProject, ProjectRole } from '../models/Project';
+
+// Lowest to highest; each role can do everything the ones before it can
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'member', 'maintainer', 'owner'];
+
+export const isProjectRole = (value: any): value is ProjectRole => PROJECT_ROLES.includes(value);
+
+export const projectRoleOf = (project: IProject, userId: Types.ObjectId | string): ProjectRole | null => {
+  const member = project.members.find(m => m.user.toString() === userId.toString());
+  return member ? member.role : null;
+};
+
+export const roleAtLeast = (role: ProjectRole | null, minimum: ProjectRole): boolean =>
+  role !== null && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(minimum);
+
+// Whether a user holds at least `minimum` in the given project (false without a project)
+export const hasProjectRole = async (
+  projectId: Types.ObjectId | string | null | undefined,
+  userId: Types.ObjectId | string,
+  minimum: ProjectRole
+): Promise<boolean> => {
+  if (!projectId) {
+    return false;
+  }
+  const project = await Project.findById(projectId, 'members');
+  return !!project && roleAtLeast(projectRoleOf(project, userId), minimum);
+};
+
+// Ids of every project the user belongs to, in any role
+export const memberProjectIds = async (userId: Types.ObjectId | string): Promise<Types.ObjectId[]> => {
+  const projects = await Project.find({ 'members.user': userId }, '_id');
+  return projects.map(project => project._id);
+};
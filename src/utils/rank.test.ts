@@ -0,0 +1,66 @@
+// server/src/utils/rank.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_RANK_LENGTH, evenRanks, rankBetween } from './rank';
+
+const assertBetween = (rank: string, prev: string | null, next: string | null) => {
+  if (prev !== null) assert.ok(rank > prev, `${rank} should sort after ${prev}`);
+  if (next !== null) assert.ok(rank < next, `${rank} should sort before ${next}`);
+  assert.ok(!rank.endsWith('0'), `${rank} should not end in 0`);
+};
+
+test('rankBetween places a rank inside any open or closed range', () => {
+  const ranges: [string | null, string | null][] = [
+    [null, null], ['i', null], [null, 'i'], ['a', 'b'], ['a', 'a1'], ['az', 'b'], ['zz', null], [null, '01']
+  ];
+  for (const [prev, next] of ranges) {
+    assertBetween(rankBetween(prev, next), prev, next);
+  }
+});
+
+test('rankBetween rejects a range that is out of order', () => {
+  assert.throws(() => rankBetween('b', 'a'));
+  assert.throws(() => rankBetween('a', 'a'));
+});
+
+test('repeated inserts into the same gap keep their order', () => {
+  let prev = 'a';
+  const next = 'b';
+  for (let i = 0; i < 200; i++) {
+    const rank = rankBetween(prev, next);
+    assertBetween(rank, prev, next);
+    prev = rank;
+  }
+});
+
+test('appending keeps ranks ascending but makes them longer', () => {
+  let last: string | null = null;
+  for (let i = 0; i < 100; i++) {
+    const rank = rankBetween(last, null);
+    assertBetween(rank, last, null);
+    last = rank;
+  }
+  assert.ok(last!.length > MAX_RANK_LENGTH, 'long runs of appends are what rebalancing is for');
+});
+
+test('evenRanks gives short, unique, ascending ranks', () => {
+  assert.deepEqual(evenRanks(0), []);
+
+  for (const count of [1, 2, 35, 36, 1000, 5000]) {
+    const ranks = evenRanks(count);
+    assert.equal(ranks.length, count);
+    assert.equal(new Set(ranks).size, count);
+    ranks.forEach((rank, index) => {
+      assert.ok(rank.length <= 5, `${rank} should be short`);
+      assertBetween(rank, index > 0 ? ranks[index - 1] : null, null);
+    });
+  }
+});
+
+test('ranks after a rebalance stay short for many appends', () => {
+  let last: string | null = evenRanks(1000).pop()!;
+  for (let i = 0; i < 30; i++) {
+    last = rankBetween(last, null);
+    assert.ok(last.length <= MAX_RANK_LENGTH);
+  }
+});
@@ -0,0 +1,124 @@
+// server/src/utils/rank.ts
+import { Types } from 'mongoose';
+import Task from '../models/Task';
+
+// Lexicographic (fractional) ranks: a new rank can always be generated between
+// two existing ones, so moving a card never renumbers the rest of the column.
+// Ranks are base-36 strings that never end in '0'. They grow a little with
+// every insert at the same spot, so a column whose ranks get longer than
+// MAX_RANK_LENGTH is rebalanced to short, evenly spaced ranks.
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+export const MAX_RANK_LENGTH = 12;
+
+// Free rank values left between rebalanced neighbours, so the next few inserts stay short
+const REBALANCE_GAP = DIGITS.length ** 2;
+
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Skip the shared prefix (a is padded with zeros)
+    let n = 0;
+    while ((a[n] || '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Consecutive digits: extend past a
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+// Rank strictly between prev and next (null means the start/end of the column)
+export const rankBetween = (prev: string | null, next: string | null): string => {
+  if (prev !== null && next !== null && prev >= next) {
+    throw new Error(`Invalid rank range: ${prev} >= ${next}`);
+  }
+  return midpoint(prev || '', next);
+};
+
+// `count` ascending ranks spread evenly over the shortest length that leaves
+// about REBALANCE_GAP values between neighbours
+export const evenRanks = (count: number): string[] => {
+  let length = 1;
+  while (DIGITS.length ** length < (count + 1) * REBALANCE_GAP) {
+    length++;
+  }
+
+  const space = BigInt(DIGITS.length) ** BigInt(length);
+  const step = space / BigInt(count + 1);
+  return Array.from({ length: count }, (_, index) =>
+    (step * BigInt(index + 1)).toString(36).padStart(length, '0').replace(/0+$/, ''));
+};
+
+// Tasks share a column when they have the same project and status
+const columnQuery = (projectId: Types.ObjectId | null | undefined, status: string) => ({
+  projectId: projectId || null,
+  status
+});
+
+// Rank that places a task at the bottom of a column
+export const rankAtEnd = async (
+  projectId: Types.ObjectId | null | undefined,
+  status: string
+): Promise<string> => {
+  const lastRank = async () => {
+    const last = await Task.findOne({ ...columnQuery(projectId, status), rank: { $exists: true } })
+      .sort({ rank: -1 })
+      .select('rank');
+    return rankBetween(last?.rank || null, null);
+  };
+
+  const rank = await lastRank();
+  if (rank.length <= MAX_RANK_LENGTH) {
+    return rank;
+  }
+  await rebalanceColumn(projectId, status);
+  return lastRank();
+};
+
+// Gives every task in the column a short rank, keeping the display order
+export const rebalanceColumn = async (
+  projectId: Types.ObjectId | null | undefined,
+  status: string
+): Promise<void> => {
+  const tasks = await Task.find(columnQuery(projectId, status)).sort({ rank: 1, createdAt: -1 }).select('_id');
+  const ranks = evenRanks(tasks.length);
+  const ops = tasks.map((task, index) => ({
+    updateOne: { filter: { _id: task._id }, update: { $set: { rank: ranks[index] } } }
+  }));
+  if (ops.length > 0) {
+    await Task.bulkWrite(ops, { timestamps: false });
+  }
+};
+
+// Tasks created before ranking existed have no rank; give the whole column
+// ranks once, in its current display order, so neighbours can be compared
+export const ensureColumnRanked = async (
+  projectId: Types.ObjectId | null | undefined,
+  status: string
+): Promise<void> => {
+  const query = columnQuery(projectId, status);
+  const unranked = await Task.countDocuments({ ...query, rank: { $exists: false } });
+  if (unranked === 0) {
+    return;
+  }
+
+  const tasks = await Task.find(query).sort({ rank: 1, createdAt: -1 }).select('_id');
+  let rank: string | null = null;
+  const ops = tasks.map(task => {
+    rank = rankBetween(rank, null);
+    return { updateOne: { filter: { _id: task._id }, update: { $set: { rank } } } };
+  });
+  await Task.bulkWrite(ops, { timestamps: false });
+};
@@ -0,0 +1,32 @@
+// server/src/utils/registration.ts
+
+// REGISTRATION_MODE: open (default), domain-allowlist or closed.
+// With domain-allowlist, REGISTRATION_ALLOWED_DOMAINS is a comma-separated list.
+export type RegistrationMode = 'open' | 'domain-allowlist' | 'closed';
+
+export const registrationMode = (): RegistrationMode => {
+  const mode = process.env.REGISTRATION_MODE;
+  return mode === 'domain-allowlist' || mode === 'closed' ? mode : 'open';
+};
+
+const allowedDomains = () =>
+  (process.env.REGISTRATION_ALLOWED_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean);
+
+// Returns why public registration is refused for this email, or null if allowed
+export const registrationError = (email: string): string | null => {
+  switch (registrationMode()) {
+    case 'closed':
+      return 'Registration is by invitation only';
+    case 'domain-allowlist': {
+      const domain = String(email).split('@').pop()?.toLowerCase() || '';
+      return allowedDomains().includes(domain)
+        ? null
+        : 'Registration is not open for this email domain';
+    }
+    default:
+      return null;
+  }
+};
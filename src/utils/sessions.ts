@@ -0,0 +1,159 @@
+// server/src/utils/sessions.ts
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import Session, { ISession } from '../models/Session';
+import RefreshToken from '../models/RefreshToken';
+import User, { IUser } from '../models/User';
+import { io } from '../server';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read lazily: route modules are imported before dotenv.config() runs in server.ts
+export const jwtSecret = () => process.env.JWT_SECRET || 'fallback_secret_key_change_this_in_production';
+const accessTokenTtl = () => (process.env.ACCESS_TOKEN_TTL || '15m') as SignOptions['expiresIn'];
+const refreshTokenTtlMs = () => Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * DAY_MS;
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Socket.IO room holding the sockets opened with a session's access tokens
+export const sessionRoom = (sessionId: Types.ObjectId | string) => `session:${sessionId}`;
+
+export interface AccessTokenPayload {
+  id: string;
+  role: string;
+  sid: string;
+}
+
+export interface IssuedTokens {
+  token: string; // Short-lived access JWT
+  refreshToken: string;
+  expiresIn: SignOptions['expiresIn'];
+}
+
+const issueTokens = async (user: IUser, session: ISession): Promise<IssuedTokens> => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+  await RefreshToken.create({
+    session: session._id,
+    user: user._id,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: session.expiresAt
+  });
+
+  const token = jwt.sign(
+    { id: user._id.toString(), role: user.role, sid: session._id.toString() },
+    jwtSecret(),
+    { expiresIn: accessTokenTtl() }
+  );
+
+  return { token, refreshToken, expiresIn: accessTokenTtl() };
+};
+
+// Start a new session at login/registration
+export const createSession = async (
+  user: IUser,
+  req: Request,
+  restricted?: ISession['restricted']
+): Promise<IssuedTokens> => {
+  const session = await Session.create({
+    user: user._id,
+    userAgent: req.headers['user-agent'],
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + refreshTokenTtlMs()),
+    restricted
+  });
+
+  return issueTokens(user, session);
+};
+
+// Exchange a refresh token for a new pair. Each refresh token works once;
+// presenting a used one means it leaked, so the whole session is revoked.
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<(IssuedTokens & { user: IUser }) | null> => {
+  const tokenHash = hashToken(refreshToken);
+
+  const stored = await RefreshToken.findOneAndUpdate(
+    { tokenHash, usedAt: null },
+    { $set: { usedAt: new Date() } }
+  );
+
+  if (!stored) {
+    const reused = await RefreshToken.findOne({ tokenHash });
+    if (reused) {
+      await revokeSession(reused.session, 'reuse-detected');
+    }
+    return null;
+  }
+
+  const session = await Session.findOne({ _id: stored.session, revokedAt: null, expiresAt: { $gt: new Date() } });
+  if (!session) {
+    return null;
+  }
+
+  const user = await User.findById(stored.user);
+  if (!user || !user.isActive) {
+    return null;
+  }
+
+  session.lastUsedAt = new Date();
+  await session.save();
+
+  return { user, ...(await issueTokens(user, session)) };
+};
+
+export const revokeSession = async (sessionId: Types.ObjectId | string, reason: ISession['revokedReason']) => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  io.in(sessionRoom(sessionId)).disconnectSockets(true);
+};
+
+export const revokeAllSessions = async (userId: Types.ObjectId | string, reason: ISession['revokedReason']) => {
+  await Session.updateMany(
+    { user: userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  io.in(userId.toString()).disconnectSockets(true);
+};
+
+// Verifies an access token against its session and the user's current state.
+// Used by both the HTTP `protect` middleware and the Socket.IO handshake.
+export const verifyAccessToken = async (
+  token: string
+): Promise<{ user: IUser; sessionId: string; restricted?: ISession['restricted'] } | { error: string }> => {
+  let decoded: AccessTokenPayload;
+  try {
+    decoded = jwt.verify(token, jwtSecret()) as AccessTokenPayload;
+  } catch {
+    return { error: 'Token failed' };
+  }
+
+  // Tokens issued before sessions existed cannot be revoked, so they are refused
+  if (!decoded.sid) {
+    return { error: 'Session expired, please log in again' };
+  }
+
+  const session = await Session.findOne({
+    _id: decoded.sid,
+    user: decoded.id,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }, 'restricted');
+  if (!session) {
+    return { error: 'Session has been revoked' };
+  }
+
+  const user = await User.findById(decoded.id).select('-password') as IUser | null;
+  if (!user) {
+    return { error: 'User not found' };
+  }
+  if (!user.isActive) {
+    return { error: 'Account is deactivated' };
+  }
+
+  return { user, sessionId: decoded.sid, restricted: session.restricted };
+};
@@ -0,0 +1,73 @@
+// server/src/utils/taskAccess.ts
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Task, { ITask } from '../models/Task';
+import { IUser } from '../models/User';
+import { AuthRequest } from '../types';
+import { Permission } from './permissions';
+import { hasProjectRole } from './projectAccess';
+
+// Works on both raw and populated tasks (populated refs expose _id)
+const refId = (ref: any): string => (ref && ref._id ? ref._id.toString() : ref.toString());
+
+const isAssigneeOrCreator = (task: ITask, user: IUser): boolean => {
+  const userId = user._id.toString();
+  return task.assignedTo.some(assignedUser => refId(assignedUser) === userId)
+    || refId(task.assignedBy) === userId;
+};
+
+const taskProjectId = (task: ITask) => (task.projectId ? refId(task.projectId) : null);
+
+// Same rules as GET /api/tasks/:id: holders of task:read-all, assignees, the creator
+// and any member of the task's project
+export const canAccessTask = async (task: ITask, user: IUser, permissions: Permission[] = []): Promise<boolean> => {
+  if (permissions.includes('task:read-all') || isAssigneeOrCreator(task, user)) {
+    return true;
+  }
+  return hasProjectRole(taskProjectId(task), user._id, 'viewer');
+};
+
+// Changing status/position: task editors, assignees, the creator and project members (not viewers)
+export const canMoveTask = async (task: ITask, user: IUser, permissions: Permission[] = []): Promise<boolean> => {
+  if (permissions.includes('task:update') || isAssigneeOrCreator(task, user)) {
+    return true;
+  }
+  return hasProjectRole(taskProjectId(task), user._id, 'member');
+};
+
+// Editing any field: task editors, the creator and project maintainers
+export const canEditTask = async (task: ITask, user: IUser, permissions: Permission[] = []): Promise<boolean> => {
+  if (permissions.includes('task:update') || refId(task.assignedBy) === user._id.toString()) {
+    return true;
+  }
+  return hasProjectRole(taskProjectId(task), user._id, 'maintainer');
+};
+
+export const assigneeIds = (task: ITask): string[] => task.assignedTo.map(refId);
+
+type TaskCheck = (task: ITask, user: IUser, permissions?: Permission[]) => Promise<boolean>;
+
+// Resolve the task from :id for nested task routes and check the caller may see it
+// (or pass `check`, e.g. canMoveTask, for routes that change it).
+// Sends the error response itself and returns null when the request should stop.
+export const loadAccessibleTask = async (req: AuthRequest, res: Response, check: TaskCheck = canAccessTask) => {
+  const taskId = req.params.id;
+
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    res.status(400).json({ message: 'Invalid task ID format' });
+    return null;
+  }
+
+  const task = await Task.findById(taskId);
+  if (!task) {
+    res.status(404).json({ message: 'Task not found' });
+    return null;
+  }
+
+  if (!req.user || !(await check(task, req.user, req.permissions))) {
+    res.status(403).json({ message: 'Access denied' });
+    return null;
+  }
+
+  return task;
+};
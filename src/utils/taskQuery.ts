@@ -0,0 +1,171 @@
+// server/src/utils/taskQuery.ts
+import mongoose from 'mongoose';
+import Project from '../models/Project';
+import { doneStatus } from './dependencies';
+import { DEFAULT_WORKFLOW, workflowFor } from './workflow';
+
+// Fields GET /api/tasks can be sorted by (prefix with '-' for descending).
+// Priority is left out: stored as text, it would sort alphabetically.
+const SORTABLE_FIELDS = ['rank', 'createdAt', 'updatedAt', 'dueDate', 'title'];
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'dueDate'];
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+export interface TaskListQuery {
+  filter: Record<string, any>;
+  sort: Record<string, 1 | -1>;
+  sortField: string;
+  sortDirection: 1 | -1;
+  limit?: number; // Undefined returns the whole list
+}
+
+export class TaskQueryError extends Error {}
+
+// Accepts ?a=x&a=y and ?a=x,y
+const listParam = (value: any): string[] => {
+  if (value === undefined || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap((v: any) => String(v).split(',')).map(v => v.trim()).filter(Boolean);
+};
+
+const objectIdList = (value: any, name: string) => {
+  const ids = listParam(value);
+  if (!ids.every(id => mongoose.Types.ObjectId.isValid(id))) {
+    throw new TaskQueryError(`Invalid ${name} ID format`);
+  }
+  return ids.map(id => new mongoose.Types.ObjectId(id));
+};
+
+const dateParam = (value: any, name: string): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new TaskQueryError(`Invalid ${name} date`);
+  }
+  return date;
+};
+
+// Cursors are opaque to clients: base64 of the last item's sort value and _id
+export const encodeCursor = (task: any, sortField: string): string => {
+  const value = task[sortField];
+  return Buffer.from(JSON.stringify({
+    v: value instanceof Date ? value.toISOString() : value ?? null,
+    id: task._id.toString()
+  })).toString('base64url');
+};
+
+const cursorFilter = (cursor: string, field: string, direction: 1 | -1) => {
+  let decoded: { v: any; id: string };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new TaskQueryError('Invalid cursor');
+  }
+  if (!decoded || !mongoose.Types.ObjectId.isValid(decoded.id)) {
+    throw new TaskQueryError('Invalid cursor');
+  }
+
+  const id = new mongoose.Types.ObjectId(decoded.id);
+  const value = decoded.v !== null && DATE_FIELDS.includes(field) ? new Date(decoded.v) : decoded.v;
+
+  // Missing values sort before everything else in MongoDB
+  if (direction === 1) {
+    return value === null
+      ? { $or: [{ [field]: null, _id: { $gt: id } }, { [field]: { $ne: null } }] }
+      : { $or: [{ [field]: { $gt: value } }, { [field]: value, _id: { $gt: id } }] };
+  }
+  return value === null
+    ? { [field]: null, _id: { $lt: id } }
+    : { $or: [{ [field]: { $lt: value } }, { [field]: value, _id: { $lt: id } }, { [field]: null }] };
+};
+
+// Tasks outside their workflow's done column. Projects with their own workflow
+// are matched one by one, everything else against the default workflow.
+const notDoneFilter = async (projectIds: mongoose.Types.ObjectId[]) => {
+  const projects = await Project.find(
+    { 'workflow.columns.0': { $exists: true }, ...(projectIds.length > 0 && { _id: { $in: projectIds } }) },
+    'workflow'
+  );
+
+  return {
+    $or: [
+      ...projects.map(project => ({ projectId: project._id, status: { $ne: doneStatus(workflowFor(project)) } })),
+      { projectId: { $nin: projects.map(project => project._id) }, status: { $ne: doneStatus(DEFAULT_WORKFLOW) } }
+    ]
+  };
+};
+
+// Turns GET /api/tasks query parameters into a Mongo filter, sort and page size
+export const buildTaskListQuery = async (query: Record<string, any>): Promise<TaskListQuery> => {
+  const conditions: Record<string, any>[] = [];
+
+  const statuses = listParam(query.status);
+  if (statuses.length > 0) conditions.push({ status: { $in: statuses } });
+
+  const priorities = listParam(query.priority);
+  if (priorities.length > 0) conditions.push({ priority: { $in: priorities } });
+
+  const assignees = objectIdList(query.assignee, 'assignee');
+  if (assignees.length > 0) conditions.push({ assignedTo: { $in: assignees } });
+
+  let projects: mongoose.Types.ObjectId[] = [];
+  if (query.project === 'none') {
+    conditions.push({ projectId: null });
+  } else {
+    projects = objectIdList(query.project, 'project');
+    if (projects.length > 0) conditions.push({ projectId: { $in: projects } });
+  }
+
+  // labelMatch=all requires every label, the default (any) at least one
+  const labels = objectIdList(query.labels, 'label');
+  if (labels.length > 0) {
+    if (query.labelMatch !== undefined && !['any', 'all'].includes(String(query.labelMatch))) {
+      throw new TaskQueryError('labelMatch must be "any" or "all"');
+    }
+    conditions.push({ labels: query.labelMatch === 'all' ? { $all: labels } : { $in: labels } });
+  }
+
+  const dueFrom = dateParam(query.dueFrom, 'dueFrom');
+  const dueTo = dateParam(query.dueTo, 'dueTo');
+  if (dueFrom || dueTo) {
+    conditions.push({ dueDate: { ...(dueFrom && { $gte: dueFrom }), ...(dueTo && { $lte: dueTo }) } });
+  }
+
+  // Overdue means past due and not yet in the task's own done column
+  if (query.overdue === 'true') {
+    conditions.push({ dueDate: { $lt: new Date() }, ...(await notDoneFilter(projects)) });
+  }
+
+  if (query.q && String(query.q).trim()) {
+    conditions.push({ $text: { $search: String(query.q).trim() } });
+  }
+
+  const sortParam = query.sort ? String(query.sort) : 'rank';
+  const sortDirection: 1 | -1 = sortParam.startsWith('-') ? -1 : 1;
+  const sortField = sortParam.replace(/^-/, '');
+  if (!SORTABLE_FIELDS.includes(sortField)) {
+    throw new TaskQueryError(`Cannot sort by "${sortField}". Use one of: ${SORTABLE_FIELDS.join(', ')}`);
+  }
+
+  let limit: number | undefined;
+  if (query.limit !== undefined || query.cursor !== undefined) {
+    limit = query.limit !== undefined ? parseInt(String(query.limit), 10) : DEFAULT_PAGE_LIMIT;
+    if (isNaN(limit) || limit < 1) {
+      throw new TaskQueryError('Limit must be a positive integer');
+    }
+    limit = Math.min(limit, MAX_PAGE_LIMIT);
+  }
+
+  if (query.cursor) {
+    conditions.push(cursorFilter(String(query.cursor), sortField, sortDirection));
+  }
+
+  return {
+    filter: conditions.length > 0 ? { $and: conditions } : {},
+    sort: { [sortField]: sortDirection, _id: sortDirection },
+    sortField,
+    sortDirection,
+    limit
+  };
+};
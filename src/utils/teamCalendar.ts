@@ -0,0 +1,145 @@
+// server/src/utils/teamCalendar.ts
+import { Types } from 'mongoose';
+import Leave from '../models/Leave';
+import Task from '../models/Task';
+import { IUser } from '../models/User';
+import { IWorkflow } from '../models/Project';
+import { Permission } from './permissions';
+import { canAccessTask } from './taskAccess';
+import { doneStatus } from './dependencies';
+import { getWorkflow } from './workflow';
+import { startOfDay } from './workingDays';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PersonRef { id: string; name: string }
+
+// Leave as shown to teammates: dates and type, never the reason
+export interface CalendarLeave {
+  id: string;
+  user: PersonRef;
+  leaveType?: string;
+  startDate: Date;
+  endDate: Date;
+  halfDayStart: boolean;
+  halfDayEnd: boolean;
+}
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  dueDate: Date;
+  done: boolean;
+  assignees: PersonRef[];
+  assigneesOnLeave: (PersonRef & { leaveId: string })[]; // Only for tasks still open
+}
+
+export interface AvailabilityCalendar {
+  from: Date;
+  to: Date;
+  leaves: CalendarLeave[];
+  tasks: CalendarTask[];
+}
+
+const MAX_RANGE_DAYS = 366;
+
+// ?from&to query values; defaults to the next 30 days
+export const parseCalendarRange = (from: unknown, to: unknown): { from: Date; to: Date } | string => {
+  const start = from === undefined ? startOfDay(new Date()) : new Date(String(from));
+  const end = to === undefined ? new Date(start.getTime() + 30 * DAY_MS) : new Date(String(to));
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return 'from and to must be valid dates';
+  }
+  if (end < start) {
+    return 'to cannot be before from';
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return `The range cannot be longer than ${MAX_RANGE_DAYS} days`;
+  }
+  return { from: start, to: end };
+};
+
+const person = (user: any): PersonRef => ({ id: user._id.toString(), name: user.name });
+
+// Approved leave of `memberIds` and tasks assigned to them that fall due between
+// `from` and `to` (whole days, both included). Tasks the viewer cannot open are
+// left out, and open tasks due on a day their assignee is away are flagged.
+export const buildAvailabilityCalendar = async (
+  memberIds: Types.ObjectId[],
+  from: Date,
+  to: Date,
+  viewer: { user: IUser; permissions: Permission[] }
+): Promise<AvailabilityCalendar> => {
+  const first = startOfDay(from);
+  const afterLast = new Date(startOfDay(to).getTime() + DAY_MS);
+
+  const leaveDocs = await Leave.find({
+    user: { $in: memberIds },
+    status: 'approved',
+    startDate: { $lt: afterLast },
+    endDate: { $gte: first }
+  })
+    .populate('user', 'name')
+    .populate('leaveType', 'name')
+    .sort({ startDate: 1 });
+
+  const leaves: CalendarLeave[] = leaveDocs.map(leave => ({
+    id: leave._id.toString(),
+    user: person(leave.user),
+    leaveType: (leave.leaveType as any)?.name,
+    startDate: leave.startDate,
+    endDate: leave.endDate,
+    halfDayStart: leave.halfDayStart,
+    halfDayEnd: leave.halfDayEnd
+  }));
+
+  const taskDocs = await Task.find({
+    assignedTo: { $in: memberIds },
+    dueDate: { $gte: first, $lt: afterLast }
+  })
+    .populate('assignedTo', 'name')
+    .sort({ dueDate: 1 });
+
+  const workflows = new Map<string, Promise<IWorkflow>>();
+  const workflowOf = (projectId?: Types.ObjectId) => {
+    const key = projectId ? projectId.toString() : '';
+    if (!workflows.has(key)) {
+      workflows.set(key, getWorkflow(projectId));
+    }
+    return workflows.get(key)!;
+  };
+
+  const tasks: CalendarTask[] = [];
+  for (const task of taskDocs) {
+    if (!(await canAccessTask(task, viewer.user, viewer.permissions))) {
+      continue;
+    }
+
+    const done = task.status === doneStatus(await workflowOf(task.projectId));
+    const dueDay = startOfDay(task.dueDate!);
+    const assignees = task.assignedTo.map(person);
+
+    const assigneesOnLeave = done ? [] : assignees.flatMap(assignee => {
+      const away = leaves.find(leave => leave.user.id === assignee.id
+        && startOfDay(leave.startDate) <= dueDay
+        && startOfDay(leave.endDate) >= dueDay);
+      return away ? [{ ...assignee, leaveId: away.id }] : [];
+    });
+
+    tasks.push({
+      id: task._id.toString(),
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate!,
+      done,
+      assignees,
+      assigneesOnLeave
+    });
+  }
+
+  return { from: first, to: startOfDay(to), leaves, tasks };
+};
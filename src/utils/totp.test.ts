@@ -0,0 +1,51 @@
+// server/src/utils/totp.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, currentStep, generateTotpSecret, totpCode, verifyTotp } from './totp';
+
+// RFC 6238 appendix B, SHA-1 seed; the app uses the last 6 of the 8 digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037']
+];
+
+test('base32 round-trips and matches the RFC 4648 alphabet', () => {
+  assert.equal(RFC_SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  assert.equal(base32Decode(RFC_SECRET).toString(), '12345678901234567890');
+  assert.equal(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString(), '12345678901234567890');
+
+  const secret = generateTotpSecret();
+  assert.equal(base32Encode(base32Decode(secret)), secret);
+});
+
+test('base32Decode rejects characters outside the alphabet', () => {
+  assert.throws(() => base32Decode('ABC1'));
+});
+
+test('totpCode matches the RFC 6238 test vectors', () => {
+  for (const [seconds, code] of RFC_VECTORS) {
+    assert.equal(totpCode(RFC_SECRET, currentStep(seconds * 1000)), code);
+  }
+});
+
+test('verifyTotp allows one step of clock drift and returns the matched step', () => {
+  const now = 1111111111 * 1000;
+  const step = currentStep(now);
+
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now), step);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now), step - 1);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now), step + 1);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now), null);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now), null);
+});
+
+test('verifyTotp rejects malformed codes', () => {
+  const now = 59 * 1000;
+  for (const code of ['', '28708', '2870820', '28708a', ' 287082']) {
+    assert.equal(verifyTotp(RFC_SECRET, code, now), null);
+  }
+});
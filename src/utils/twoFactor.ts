@@ -0,0 +1,73 @@
+// server/src/utils/twoFactor.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import User, { IUser } from '../models/User';
+import { getSetting } from '../models/Setting';
+import { hashToken } from './sessions';
+import { consumeAuthToken, issueAuthToken } from './authTokens';
+import { verifyTotp } from './totp';
+
+export const TWO_FACTOR_POLICY_KEY = 'twoFactor.requiredRoles';
+const RECOVERY_CODE_COUNT = 10;
+
+export const requiredTwoFactorRoles = () => getSetting<IUser['role'][]>(TWO_FACTOR_POLICY_KEY, []);
+
+export const twoFactorRequiredFor = async (user: IUser): Promise<boolean> =>
+  (await requiredTwoFactorRoles()).includes(user.role);
+
+// Returns plain codes for the user (shown once) and the hashes to store
+export const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(code => hashToken(code)) };
+};
+
+// Short-lived token proving the password step passed; exchanged at /login/2fa.
+// Each one is good for a single attempt, and issuing one voids the previous.
+export const signTwoFactorChallenge = (user: IUser) => issueAuthToken(user, 'two-factor-challenge');
+
+// The challenge's user id, or null if it is unknown, expired or already used
+export const verifyTwoFactorChallenge = async (token: string): Promise<string | null> => {
+  const userId = await consumeAuthToken(token, 'two-factor-challenge');
+  return userId ? userId.toString() : null;
+};
+
+// Checks a TOTP code or a recovery code for an enrolled user. Both are single-use:
+// the TOTP step is recorded and a recovery code is removed when it is accepted.
+export const verifySecondFactor = async (
+  userId: Types.ObjectId | string,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+): Promise<boolean> => {
+  const user = await User.findById(userId).select('+twoFactor.secret');
+  if (!user || !user.twoFactor?.enabled || !user.twoFactor.secret) {
+    return false;
+  }
+
+  if (code) {
+    const step = verifyTotp(user.twoFactor.secret, code);
+    if (step === null) {
+      return false;
+    }
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  if (recoveryCode) {
+    const hash = hashToken(String(recoveryCode).trim().toLowerCase());
+    const result = await User.updateOne(
+      { _id: user._id, 'twoFactor.recoveryCodes': hash },
+      { $pull: { 'twoFactor.recoveryCodes': hash } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  return false;
+};
@@ -0,0 +1,136 @@
+// server/src/utils/workflow.ts
+import { Types } from 'mongoose';
+import Project, { IProject, IWorkflow } from '../models/Project';
+import Task from '../models/Task';
+
+// Used for tasks without a project and projects without a custom workflow
+export const DEFAULT_WORKFLOW: IWorkflow = {
+  columns: [
+    { key: 'todo', name: 'To Do' },
+    { key: 'in-progress', name: 'In Progress' },
+    { key: 'review', name: 'Review' },
+    { key: 'done', name: 'Done' },
+  ],
+  transitions: [],
+};
+
+export const workflowFor = (project?: IProject | null): IWorkflow =>
+  project && project.workflow && project.workflow.columns.length > 0
+    ? project.workflow
+    : DEFAULT_WORKFLOW;
+
+export const getWorkflow = async (projectId?: Types.ObjectId | string | null): Promise<IWorkflow> => {
+  if (!projectId) {
+    return DEFAULT_WORKFLOW;
+  }
+  const project = await Project.findById(projectId);
+  return workflowFor(project);
+};
+
+export const initialStatus = (workflow: IWorkflow): string => workflow.columns[0].key;
+
+export const hasStatus = (workflow: IWorkflow, status: string): boolean =>
+  workflow.columns.some(column => column.key === status);
+
+export const canTransition = (workflow: IWorkflow, from: string, to: string): boolean => {
+  if (from === to || workflow.transitions.length === 0) {
+    return true;
+  }
+  return workflow.transitions.some(transition => transition.from === from && transition.to === to);
+};
+
+// Returns an error message for a malformed workflow definition, or null if it is valid
+export const validateWorkflow = (workflow: any): string | null => {
+  if (!workflow || typeof workflow !== 'object') {
+    return 'Workflow must be an object';
+  }
+
+  const { columns, transitions = [] } = workflow;
+
+  if (!Array.isArray(columns) || columns.length === 0) {
+    return 'Workflow must have at least one column';
+  }
+
+  const keys = new Set<string>();
+  for (const column of columns) {
+    if (!column || typeof column.key !== 'string' || column.key.trim().length === 0) {
+      return 'Every workflow column needs a key';
+    }
+    if (typeof column.name !== 'string' || column.name.trim().length === 0) {
+      return `Workflow column "${column.key}" needs a name`;
+    }
+    for (const limit of ['wipLimit', 'wipLimitPerAssignee']) {
+      if (column[limit] !== undefined && column[limit] !== null
+        && (!Number.isInteger(column[limit]) || column[limit] < 1)) {
+        return `Workflow column "${column.key}" ${limit} must be a positive integer`;
+      }
+    }
+    if (keys.has(column.key.trim())) {
+      return `Duplicate workflow column "${column.key}"`;
+    }
+    keys.add(column.key.trim());
+  }
+
+  if (!Array.isArray(transitions)) {
+    return 'Workflow transitions must be an array';
+  }
+
+  for (const transition of transitions) {
+    if (!transition || !keys.has(transition.from) || !keys.has(transition.to)) {
+      return 'Workflow transitions must reference existing columns';
+    }
+  }
+
+  return null;
+};
+
+export interface WipViolation {
+  code: 'WIP_LIMIT_EXCEEDED';
+  column: string;
+  limit: number;
+  current: number;
+  assignee?: string; // Set when the per-assignee limit is the one exceeded
+}
+
+// Checks whether putting a task into a column would break its WIP limits. A task
+// that stays in its column and only gains assignees checks just those assignees'
+// limits, with `assigneesOnly`.
+export const checkWipLimit = async (
+  workflow: IWorkflow,
+  projectId: Types.ObjectId | null | undefined,
+  status: string,
+  assignees: string[],
+  excludeTaskId: Types.ObjectId,
+  { assigneesOnly = false }: { assigneesOnly?: boolean } = {}
+): Promise<WipViolation | null> => {
+  const column = workflow.columns.find(col => col.key === status);
+  if (!column || !projectId) {
+    return null;
+  }
+
+  const baseQuery = { projectId, status, _id: { $ne: excludeTaskId } };
+
+  if (column.wipLimit && !assigneesOnly) {
+    const current = await Task.countDocuments(baseQuery);
+    if (current + 1 > column.wipLimit) {
+      return { code: 'WIP_LIMIT_EXCEEDED', column: column.key, limit: column.wipLimit, current };
+    }
+  }
+
+  if (column.wipLimitPerAssignee) {
+    for (const assignee of assignees) {
+      const current = await Task.countDocuments({ ...baseQuery, assignedTo: assignee });
+      if (current + 1 > column.wipLimitPerAssignee) {
+        return {
+          code: 'WIP_LIMIT_EXCEEDED',
+          column: column.key,
+          limit: column.wipLimitPerAssignee,
+          current,
+          assignee
+        };
+      }
+    }
+  }
+
+  return null;
+};
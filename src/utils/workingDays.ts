@@ -0,0 +1,100 @@
+// server/src/utils/workingDays.ts
+import { Types } from 'mongoose';
+import HolidayCalendar, { IHolidayCalendar } from '../models/HolidayCalendar';
+import User from '../models/User';
+
+export interface WorkCalendar {
+  weekendDays: number[];
+  holidays: Map<string, { halfDay: boolean }>; // Keyed by dayKey()
+}
+
+// Used when no calendar has been set up at all: Saturday and Sunday off
+export const BUILT_IN_CALENDAR: WorkCalendar = { weekendDays: [0, 6], holidays: new Map() };
+
+// Leave and holidays are whole calendar days, kept as UTC midnight so they do
+// not depend on the server's time zone; "2026-03-02" from a client parses to it
+export const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+export const addDays = (date: Date, days: number) => {
+  const day = new Date(date);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const dayKey = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+export const toWorkCalendar = (calendar: IHolidayCalendar): WorkCalendar => ({
+  weekendDays: calendar.weekendDays,
+  holidays: new Map(calendar.holidays.map(holiday => [dayKey(holiday.date), { halfDay: holiday.halfDay }]))
+});
+
+export interface HalfDays {
+  halfDayStart?: boolean; // Leave starts at noon on the first day
+  halfDayEnd?: boolean; // Leave ends at noon on the last day
+}
+
+// Whether any part of the day is worked (half-day holidays still have a morning)
+export const isWorkingDay = (day: Date, calendar: WorkCalendar) =>
+  !calendar.weekendDays.includes(day.getUTCDay())
+  && (calendar.holidays.get(dayKey(day))?.halfDay ?? true);
+
+// Working days from start to end, both included. Each day is a morning and an
+// afternoon; weekends and holidays have neither, half-day holidays no afternoon.
+export const countWorkingDays = (
+  startDate: Date,
+  endDate: Date,
+  calendar: WorkCalendar,
+  { halfDayStart = false, halfDayEnd = false }: HalfDays = {}
+): number => {
+  const first = startOfDay(startDate);
+  const last = startOfDay(endDate);
+  let total = 0;
+
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    if (calendar.weekendDays.includes(day.getUTCDay())) {
+      continue;
+    }
+
+    const holiday = calendar.holidays.get(dayKey(day));
+    const morning = !holiday || holiday.halfDay;
+    const afternoon = !holiday;
+
+    const isFirst = day.getTime() === first.getTime();
+    const isLast = day.getTime() === last.getTime();
+
+    if (morning && !(isFirst && halfDayStart)) total += 0.5;
+    if (afternoon && !(isLast && halfDayEnd)) total += 0.5;
+  }
+
+  return total;
+};
+
+// The user's own calendar, else the default one, else Saturday/Sunday weekends
+export const calendarForUser = async (userId: Types.ObjectId | string): Promise<WorkCalendar> => {
+  const user = await User.findById(userId, 'holidayCalendar');
+  const calendar = (user?.holidayCalendar && await HolidayCalendar.findById(user.holidayCalendar))
+    || await HolidayCalendar.findOne({ isDefault: true });
+
+  return calendar ? toWorkCalendar(calendar) : BUILT_IN_CALENDAR;
+};
+
+export type CalendarLookup = (userId: Types.ObjectId | string) => Promise<WorkCalendar>;
+
+// calendarForUser memoised per user, for endpoints that count many leaves at once
+export const calendarCache = (): CalendarLookup => {
+  const cache = new Map<string, Promise<WorkCalendar>>();
+  return userId => {
+    const key = userId.toString();
+    if (!cache.has(key)) {
+      cache.set(key, calendarForUser(userId));
+    }
+    return cache.get(key)!;
+  };
+};